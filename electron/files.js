@@ -0,0 +1,72 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+// File helpers for the desktop shell: which paths the app opens, the Recent
+// Files list, and reading files for the renderer.
+const fs = require("node:fs");
+const path = require("node:path");
+
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "webp"];
+const PROJECT_EXTENSION = "pixelblur";
+const MAX_RECENT = 10;
+
+function isOpenablePath(filePath) {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  return IMAGE_EXTENSIONS.includes(extension) || extension === PROJECT_EXTENSION;
+}
+
+// pathsFromArgv picks openable files out of a command line. `cwd` resolves
+// relative paths from a second launch in another directory.
+function pathsFromArgv(argv, cwd) {
+  return argv
+    .slice(1)
+    .filter((arg) => !arg.startsWith("-") && isOpenablePath(arg))
+    .map((arg) => path.resolve(cwd, arg))
+    .filter((filePath) => fs.existsSync(filePath));
+}
+
+// readDesktopFile loads a file in the shape the renderer's onOpenFile expects.
+async function readDesktopFile(filePath) {
+  const data = await fs.promises.readFile(filePath);
+  return { path: filePath, name: path.basename(filePath), data };
+}
+
+// createRecentFiles keeps the Recent Files list in a JSON file under the
+// user data directory. Missing or unreadable files start an empty list.
+function createRecentFiles(storePath) {
+  let entries = [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(storePath, "utf8"));
+    if (Array.isArray(parsed)) entries = parsed.filter((p) => typeof p === "string");
+  } catch {
+    entries = [];
+  }
+
+  const persist = () => {
+    try {
+      fs.mkdirSync(path.dirname(storePath), { recursive: true });
+      fs.writeFileSync(storePath, JSON.stringify(entries));
+    } catch (error) {
+      console.error("Failed to save recent files", error);
+    }
+  };
+
+  return {
+    list: () => entries.filter((filePath) => fs.existsSync(filePath)),
+    add(filePath) {
+      entries = [filePath, ...entries.filter((p) => p !== filePath)].slice(0, MAX_RECENT);
+      persist();
+    },
+    clear() {
+      entries = [];
+      persist();
+    },
+  };
+}
+
+module.exports = {
+  IMAGE_EXTENSIONS,
+  PROJECT_EXTENSION,
+  isOpenablePath,
+  pathsFromArgv,
+  readDesktopFile,
+  createRecentFiles,
+};
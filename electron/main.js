@@ -5,18 +5,36 @@ if (process.env.ELECTRON_RUN_AS_NODE) {
   delete process.env.ELECTRON_RUN_AS_NODE;
 }
 
-const { app, BrowserWindow } = require("electron");
+const { app, BrowserWindow, dialog, ipcMain, Menu } = require("electron");
 const path = require("node:path");
-const http = require("node:http");
-const { spawn } = require("node:child_process");
+const fs = require("node:fs");
+const {
+  IMAGE_EXTENSIONS,
+  PROJECT_EXTENSION,
+  isOpenablePath,
+  pathsFromArgv,
+  readDesktopFile,
+  createRecentFiles,
+} = require("./files");
+const { startServer } = require("./server");
 
-const NEXT_PORT = process.env.NEXT_PORT || 3000;
-const NEXT_HOST = process.env.NEXT_HOST || "localhost";
 const isDev = !app.isPackaged;
+// Development loads the dev server on localhost:3000; production picks a free
+// loopback port unless NEXT_PORT pins one.
+const NEXT_PORT = Number(process.env.NEXT_PORT) || (isDev ? 3000 : 0);
+const NEXT_HOST = process.env.NEXT_HOST || (isDev ? "localhost" : "127.0.0.1");
 // In production, __dirname sits inside app.asar/electron, so step up to the app root.
 const appDir = isDev ? process.cwd() : path.join(process.resourcesPath, "app");
 let mainWindow;
 let isCreatingWindow = false;
+let server;
+// Files to open once the page is listening (command line, second launch,
+// macOS open-file before the window exists).
+let pendingPaths = [];
+let rendererReady = false;
+// The renderer may only write where the user opened a file or chose to save.
+const writablePaths = new Set();
+let recentFiles;
 
 const singleInstance = app.requestSingleInstanceLock();
 if (!singleInstance) {
@@ -24,50 +42,164 @@ if (!singleInstance) {
   process.exit(0);
 }
 
-app.on("second-instance", () => {
+app.on("second-instance", (_event, argv, workingDirectory) => {
+  openPaths(pathsFromArgv(argv, workingDirectory));
   if (mainWindow) {
     if (mainWindow.isMinimized()) mainWindow.restore();
     mainWindow.focus();
   }
 });
 
-function waitForNext() {
-  const target = `http://${NEXT_HOST}:${NEXT_PORT}`;
-  return new Promise((resolve) => {
-    const check = () => {
-      http
-        .get(target, () => resolve(true))
-        .on("error", () => setTimeout(check, 250));
-    };
-    check();
+app.on("open-file", (event, filePath) => {
+  event.preventDefault();
+  openPaths([filePath]);
+});
+
+// openPaths sends files to the page, queueing them until it is ready.
+function openPaths(paths) {
+  if (!paths.length) return;
+  if (!rendererReady || !mainWindow || mainWindow.isDestroyed()) {
+    pendingPaths.push(...paths);
+    return;
+  }
+  paths.forEach(async (filePath) => {
+    try {
+      const file = await readDesktopFile(filePath);
+      writablePaths.add(filePath);
+      mainWindow.webContents.send("file:open", file);
+      addRecentFile(filePath);
+    } catch (error) {
+      dialog.showErrorBox("Could not open file", `${filePath}\n\n${error.message}`);
+    }
   });
 }
 
-function startNextProd() {
-  const nextBin = require.resolve("next/dist/bin/next");
-  const env = {
-    ...process.env,
-    PORT: NEXT_PORT,
-    HOSTNAME: NEXT_HOST,
-    // Force the Electron binary to act as Node when spawning the Next.js server,
-    // avoiding extra Electron windows or recursive launches.
-    ELECTRON_RUN_AS_NODE: "1",
-  };
-  const proc = spawn(
-    process.execPath,
-    [nextBin, "start", "-H", NEXT_HOST, "-p", NEXT_PORT],
+function addRecentFile(filePath) {
+  recentFiles.add(filePath);
+  app.addRecentDocument(filePath);
+  buildMenu();
+}
+
+function sendMenuCommand(command) {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send("menu:command", command);
+  }
+}
+
+async function showOpenDialog() {
+  const result = await dialog.showOpenDialog(mainWindow, {
+    properties: ["openFile"],
+    filters: [
+      { name: "Images and projects", extensions: [...IMAGE_EXTENSIONS, PROJECT_EXTENSION] },
+      { name: "Images", extensions: IMAGE_EXTENSIONS },
+      { name: "Pixel Blur projects", extensions: [PROJECT_EXTENSION] },
+    ],
+  });
+  if (!result.canceled) openPaths(result.filePaths);
+}
+
+// buildMenu installs the native menu; it is rebuilt when Recent Files changes.
+function buildMenu() {
+  const recent = recentFiles.list();
+  const recentItems = recent.length
+    ? [
+        ...recent.map((filePath) => ({
+          label: filePath,
+          click: () => openPaths([filePath]),
+        })),
+        { type: "separator" },
+        {
+          label: "Clear Recent",
+          click: () => {
+            recentFiles.clear();
+            app.clearRecentDocuments();
+            buildMenu();
+          },
+        },
+      ]
+    : [{ label: "No Recent Files", enabled: false }];
+
+  const template = [
+    {
+      label: "File",
+      submenu: [
+        { label: "Open…", accelerator: "CmdOrCtrl+O", click: showOpenDialog },
+        { label: "Recent Files", submenu: recentItems },
+        { type: "separator" },
+        { label: "Save", accelerator: "CmdOrCtrl+S", click: () => sendMenuCommand("save") },
+        {
+          label: "Save As…",
+          accelerator: "CmdOrCtrl+Shift+S",
+          click: () => sendMenuCommand("save-as"),
+        },
+        { label: "Export…", accelerator: "CmdOrCtrl+E", click: () => sendMenuCommand("export") },
+        { type: "separator" },
+        { role: "quit" },
+      ],
+    },
+    { role: "editMenu" },
     {
-      cwd: appDir,
-      env,
-      stdio: "ignore",
-      windowsHide: true,
+      label: "View",
+      // No zoom roles: Ctrl/Cmd +, - and 0 zoom the canvas instead.
+      submenu: [{ role: "reload" }, { role: "toggleDevTools" }, { role: "togglefullscreen" }],
     },
-  );
-  proc.on("error", (err) => {
-    console.error("Failed to start Next.js server", err);
+  ];
+  Menu.setApplicationMenu(Menu.buildFromTemplate(template));
+}
+
+function registerFileHandlers() {
+  ipcMain.on("file:renderer-ready", () => {
+    rendererReady = true;
+    const paths = pendingPaths;
+    pendingPaths = [];
+    openPaths(paths);
+  });
+
+  // Only updates Recent Files: a path the page reports was not confirmed by
+  // the user in a dialog here, so it does not become writable.
+  ipcMain.on("file:add-recent", (_event, filePath) => {
+    if (typeof filePath !== "string" || !isOpenablePath(filePath)) return;
+    if (!fs.existsSync(filePath)) return;
+    addRecentFile(filePath);
+  });
+
+  ipcMain.handle("file:save-dialog", async (_event, options) => {
+    const result = await dialog.showSaveDialog(mainWindow, {
+      defaultPath: options?.defaultPath,
+      filters: options?.filters,
+    });
+    if (result.canceled || !result.filePath) return null;
+    writablePaths.add(result.filePath);
+    return result.filePath;
+  });
+
+  ipcMain.handle("file:write", async (_event, filePath, data) => {
+    if (!writablePaths.has(filePath)) {
+      throw new Error("Saving there was not confirmed in a file dialog.");
+    }
+    await fs.promises.writeFile(filePath, Buffer.from(data));
   });
 }
 
+// errorPageUrl renders a startup failure in the window instead of leaving it
+// blank.
+function errorPageUrl(error) {
+  const entities = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" };
+  const escape = (text) => String(text).replace(/[&<>"]/g, (c) => entities[c]);
+  const html = `<!doctype html>
+<meta charset="utf-8">
+<title>Pixel Blur</title>
+<body style="margin:0;padding:48px;background:#050505;color:#f5f5f5;font:14px/1.5 monospace">
+  <h1 style="font-size:20px">Pixel Blur could not start</h1>
+  <p>The app's local server did not come up. Quit and start the app again; if
+  this keeps happening, the details below say why.</p>
+  <pre style="white-space:pre-wrap;padding:16px;border:1px solid #333;border-radius:8px;background:#111">${escape(
+    error && error.message ? error.message : error,
+  )}</pre>
+</body>`;
+  return `data:text/html;charset=utf-8,${encodeURIComponent(html)}`;
+}
+
 async function createWindow() {
   if (isCreatingWindow) return;
   if (mainWindow && !mainWindow.isDestroyed()) {
@@ -75,33 +207,47 @@ async function createWindow() {
     return;
   }
   isCreatingWindow = true;
-  const targetUrl = `http://${NEXT_HOST}:${NEXT_PORT}`;
 
   mainWindow = new BrowserWindow({
     width: 1280,
     height: 800,
     title: "Pixel Blur",
     backgroundColor: "#050505",
-    autoHideMenuBar: true,
+    autoHideMenuBar: false,
     icon: path.join(appDir, "public", "icon.png"),
     webPreferences: {
       contextIsolation: true,
       nodeIntegration: false,
+      preload: path.join(__dirname, "preload.js"),
     },
   });
 
-  await waitForNext();
-  await mainWindow.loadURL(targetUrl);
+  // A reload drops the page's listeners until it announces itself again.
+  mainWindow.webContents.on("did-start-loading", () => {
+    rendererReady = false;
+  });
   mainWindow.on("closed", () => {
     mainWindow = null;
+    rendererReady = false;
   });
-  isCreatingWindow = false;
+  try {
+    await mainWindow.loadURL(await server.ready);
+  } catch (error) {
+    console.error("Failed to start the app", error);
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      await mainWindow.loadURL(errorPageUrl(error));
+    }
+  } finally {
+    isCreatingWindow = false;
+  }
 }
 
 app.whenReady().then(async () => {
-  if (!isDev) {
-    startNextProd();
-  }
+  recentFiles = createRecentFiles(path.join(app.getPath("userData"), "recent-files.json"));
+  registerFileHandlers();
+  buildMenu();
+  openPaths(pathsFromArgv(process.argv, process.cwd()));
+  server = startServer({ appDir, isDev, host: NEXT_HOST, port: NEXT_PORT });
   await createWindow();
 
   app.on("activate", () => {
@@ -117,4 +263,9 @@ app.on("window-all-closed", () => {
   }
 });
 
-app.on("will-quit", () => {});
+// Hold the quit until the server process has exited so it is never orphaned.
+app.on("will-quit", (event) => {
+  if (!server || !server.isRunning()) return;
+  event.preventDefault();
+  server.stop().then(() => app.quit());
+});
@@ -0,0 +1,31 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+// Exposes the desktop bridge (window.pixelBlur, typed in src/lib/desktop.ts)
+// to the page. Only these narrow calls cross into the main process.
+const { contextBridge, ipcRenderer, webUtils } = require("electron");
+
+// subscribe registers an IPC listener and returns its unsubscribe function.
+function subscribe(channel, listener) {
+  const handler = (_event, payload) => listener(payload);
+  ipcRenderer.on(channel, handler);
+  return () => ipcRenderer.removeListener(channel, handler);
+}
+
+let announcedReady = false;
+
+contextBridge.exposeInMainWorld("pixelBlur", {
+  getPathForFile: (file) => webUtils.getPathForFile(file),
+  showSaveDialog: (options) => ipcRenderer.invoke("file:save-dialog", options),
+  writeFile: (path, data) => ipcRenderer.invoke("file:write", path, data),
+  addRecentFile: (path) => ipcRenderer.send("file:add-recent", path),
+  onOpenFile: (listener) => {
+    const unsubscribe = subscribe("file:open", listener);
+    // Files passed on the command line wait in the main process until the
+    // page is listening for them.
+    if (!announcedReady) {
+      announcedReady = true;
+      ipcRenderer.send("file:renderer-ready");
+    }
+    return unsubscribe;
+  },
+  onMenuCommand: (listener) => subscribe("menu:command", listener),
+});
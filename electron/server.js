@@ -0,0 +1,121 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+// Runs the app's Next.js server for the desktop shell. Production starts
+// `next start` on a free loopback port; development waits for the dev server
+// that `bun run dev:electron` launches. Startup fails with an error instead of
+// waiting forever.
+const http = require("node:http");
+const net = require("node:net");
+const { spawn } = require("node:child_process");
+
+const STARTUP_TIMEOUT_MS = 30000;
+// How long a stopping server gets before it is killed outright.
+const STOP_GRACE_MS = 3000;
+// Keep the tail of the server's stderr for the error screen.
+const MAX_LOG = 4000;
+
+// findFreePort asks the OS for an unused port on `host`.
+function findFreePort(host) {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on("error", reject);
+    server.listen(0, host, () => {
+      const { port } = server.address();
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+// waitForServer polls `url` until it answers. It rejects on timeout, or as
+// soon as `child` exits, with whatever the child printed to stderr.
+function waitForServer(url, child, getLog) {
+  return new Promise((resolve, reject) => {
+    const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+    let settled = false;
+    const settle = (error) => {
+      if (settled) return;
+      settled = true;
+      if (error) reject(error);
+      else resolve(url);
+    };
+    const failWith = (message) => {
+      const log = getLog().trim();
+      settle(new Error(log ? `${message}\n\n${log}` : message));
+    };
+    if (child) {
+      child.once("error", (error) => failWith(`Could not start the server: ${error.message}`));
+      child.once("exit", (code, signal) =>
+        failWith(`The server exited during startup (${signal || `code ${code}`}).`),
+      );
+    }
+    const check = () => {
+      if (settled) return;
+      if (Date.now() > deadline) {
+        failWith(`No response from ${url} after ${STARTUP_TIMEOUT_MS / 1000} seconds.`);
+        return;
+      }
+      http
+        .get(url, (response) => {
+          response.resume();
+          settle();
+        })
+        .on("error", () => setTimeout(check, 250));
+    };
+    check();
+  });
+}
+
+// startServer resolves `ready` with the URL to load. `stop` ends the child
+// process, if one was started, and resolves once it has exited.
+function startServer({ appDir, isDev, host, port }) {
+  let child = null;
+  let log = "";
+  const getLog = () => log;
+
+  const ready = (async () => {
+    if (isDev) {
+      return waitForServer(`http://${host}:${port || 3000}`, null, getLog);
+    }
+    const serverPort = port || (await findFreePort(host));
+    const nextBin = require.resolve("next/dist/bin/next", { paths: [appDir] });
+    child = spawn(process.execPath, [nextBin, "start", "-H", host, "-p", String(serverPort)], {
+      cwd: appDir,
+      env: {
+        ...process.env,
+        PORT: String(serverPort),
+        HOSTNAME: host,
+        // Make the Electron binary act as Node for the server process,
+        // avoiding extra Electron windows or recursive launches.
+        ELECTRON_RUN_AS_NODE: "1",
+      },
+      stdio: ["ignore", "ignore", "pipe"],
+      windowsHide: true,
+    });
+    child.stderr.on("data", (chunk) => {
+      log = (log + chunk.toString()).slice(-MAX_LOG);
+    });
+    child.once("exit", () => {
+      child = null;
+    });
+    return waitForServer(`http://${host}:${serverPort}`, child, getLog);
+  })();
+
+  const stop = () =>
+    new Promise((resolve) => {
+      const proc = child;
+      if (!proc) {
+        resolve();
+        return;
+      }
+      const timer = setTimeout(() => proc.kill("SIGKILL"), STOP_GRACE_MS);
+      proc.once("exit", () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      proc.kill("SIGTERM");
+    });
+
+  return { ready, stop, isRunning: () => child !== null };
+}
+
+module.exports = { startServer };
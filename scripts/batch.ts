@@ -0,0 +1,148 @@
+// Batch redaction: applies one saved layout (a .pixelblur project, or a
+// hand-written recipe in the same format) to many images and writes the
+// rendered results to disk. Overlay geometry is in image pixels, so the recipe
+// is applied 1:1 to every input.
+//
+//   bun scripts/batch.ts --recipe layout.pixelblur --out redacted/ shots/*.png
+//
+// Rendering goes through renderScene from src/lib/canvas.ts, backed by
+// @napi-rs/canvas instead of the DOM.
+import fs from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { createCanvas, GlobalFonts, Image, loadImage } from "@napi-rs/canvas";
+import { renderScene, setCanvasFactory } from "../src/lib/canvas";
+import { parseProject } from "../src/lib/project";
+import { Annotation, BrushStroke, Lens, Sticker, TextOverlay } from "../src/lib/types";
+
+const FONT_DIR = path.join(process.cwd(), "assets", "fonts");
+const FORMATS = new Set(["png", "jpeg", "webp"]);
+
+type Recipe = {
+  lenses: Lens[];
+  stickers: Sticker[];
+  texts: TextOverlay[];
+  annotations: Annotation[];
+  strokes: BrushStroke[];
+};
+
+const usage = `Usage: bun scripts/batch.ts --recipe <file> --out <dir> [--format png|jpeg|webp] [--quality 0-100] <images...>`;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      recipe: { type: "string", short: "r" },
+      out: { type: "string", short: "o" },
+      format: { type: "string", short: "f", default: "png" },
+      quality: { type: "string", short: "q", default: "92" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help || !values.recipe || !values.out || positionals.length === 0) {
+    console.log(usage);
+    process.exit(values.help ? 0 : 1);
+  }
+  const format = values.format ?? "png";
+  if (!FORMATS.has(format)) {
+    throw new Error(`Unsupported format "${format}". Use png, jpeg or webp.`);
+  }
+  const quality = Number(values.quality);
+
+  registerFonts();
+  setCanvasFactory(
+    (width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement,
+  );
+
+  const recipe = await loadRecipe(values.recipe);
+  fs.mkdirSync(values.out, { recursive: true });
+
+  let failures = 0;
+  for (const input of positionals) {
+    try {
+      const output = path.join(
+        values.out,
+        `${path.basename(input, path.extname(input))}.${format === "jpeg" ? "jpg" : format}`,
+      );
+      await renderFile(input, output, recipe, format as "png" | "jpeg" | "webp", quality);
+      console.log(`${input} -> ${output}`);
+    } catch (error) {
+      failures++;
+      console.error(`Failed to render ${input}:`, error);
+    }
+  }
+  if (failures > 0) process.exit(1);
+}
+
+async function loadRecipe(file: string): Promise<Recipe> {
+  const project = parseProject(fs.readFileSync(file, "utf8"));
+  const baseDir = path.dirname(file);
+  const stickers = await Promise.all(
+    project.stickers.map(async (sticker) => {
+      // Hand-written recipes may point at files relative to the recipe.
+      const source = sticker.src.startsWith("data:")
+        ? sticker.src
+        : path.resolve(baseDir, sticker.src);
+      const image = await loadImage(source);
+      return { ...sticker, image: asDomImage(image) };
+    }),
+  );
+  return {
+    lenses: project.lenses,
+    stickers,
+    texts: project.texts,
+    annotations: project.annotations,
+    strokes: project.strokes,
+  };
+}
+
+async function renderFile(
+  input: string,
+  output: string,
+  recipe: Recipe,
+  format: "png" | "jpeg" | "webp",
+  quality: number,
+) {
+  const image = await loadImage(fs.readFileSync(input));
+  const canvas = createCanvas(image.width, image.height);
+  renderScene({
+    canvas: canvas as unknown as HTMLCanvasElement,
+    image: asDomImage(image),
+    lenses: recipe.lenses,
+    stickers: recipe.stickers,
+    texts: recipe.texts,
+    annotations: recipe.annotations,
+    strokes: recipe.strokes,
+    preview: null,
+    width: image.width,
+    height: image.height,
+    backgroundColor: "#000000",
+    showPlaceholder: false,
+  });
+  const data =
+    format === "png"
+      ? await canvas.encode("png")
+      : await canvas.encode(format, quality);
+  fs.writeFileSync(output, data);
+}
+
+// renderScene only reads naturalWidth/naturalHeight and passes the image to
+// drawImage, both of which @napi-rs/canvas images support.
+function asDomImage(image: Image) {
+  return image as unknown as HTMLImageElement;
+}
+
+function registerFonts() {
+  if (!fs.existsSync(FONT_DIR)) return;
+  fs.readdirSync(FONT_DIR)
+    .filter((file) => /\.(ttf|otf)$/i.test(file))
+    .forEach((file) => {
+      GlobalFonts.registerFromPath(path.join(FONT_DIR, file), "Terminus");
+    });
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// Serves the OCR worker, WASM core, and language data from node_modules so
+// text detection runs fully offline (tesseract.js defaults to a CDN).
+const MODULES_DIR = path.join(process.cwd(), "node_modules");
+const ASSET_DIRS: Record<string, string> = {
+  worker: path.join(MODULES_DIR, "tesseract.js", "dist"),
+  core: path.join(MODULES_DIR, "tesseract.js-core"),
+  lang: path.join(MODULES_DIR, "@tesseract.js-data", "eng", "4.0.0_best_int"),
+};
+const MIME_TYPES: Record<string, string> = {
+  ".js": "text/javascript",
+  ".wasm": "application/wasm",
+  ".gz": "application/gzip",
+};
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ asset: string[] }> },
+) {
+  const { asset } = await params;
+  const [group, file] = asset;
+  const dir = ASSET_DIRS[group];
+  // Only serve plain file names from the known directories.
+  if (!dir || !file || asset.length !== 2 || file !== path.basename(file)) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  try {
+    const data = fs.readFileSync(path.join(dir, file));
+    const mime = MIME_TYPES[path.extname(file).toLowerCase()] ?? "application/octet-stream";
+    return new Response(data, {
+      headers: {
+        "Content-Type": mime,
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to read OCR asset:", error);
+    return new Response("Not found", { status: 404 });
+  }
+}
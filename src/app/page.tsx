@@ -3,68 +3,274 @@
 import { useEffect, useRef, useState } from "react";
 import CanvasStage from "@/components/CanvasStage";
 import ControlPanel from "@/components/ControlPanel";
+import ExportDialog from "@/components/ExportDialog";
+import Inspector, { InspectedOverlay } from "@/components/Inspector";
 import {
+  Annotation,
+  AnnotationMode,
+  AnnotationStyle,
+  BrushSettings,
+  BrushStroke,
   Lens,
+  LensEffect,
   LensShape,
+  MagnifierStyle,
   Mode,
+  SceneTransform,
+  Selection,
   StageHandle,
   Sticker,
+  StickerStyle,
   TextOverlay,
+  TextStyle,
 } from "@/lib/types";
+import {
+  annotationBounds,
+  annotationLabels,
+  defaultAnnotationStyles,
+  isAnnotationMode,
+} from "@/lib/annotations";
+import {
+  invertTransform,
+  mapAnnotation,
+  mapBox,
+  mapLens,
+  mapSticker,
+  mapText,
+} from "@/lib/canvas";
+import { Detection, detectSensitiveRegions } from "@/lib/detect";
+import { getDesktopBridge } from "@/lib/desktop";
+import { defaultBrushSettings } from "@/lib/brush";
+import {
+  defaultLensEffect,
+  defaultMagnifierStyle,
+  pickLensEffect,
+  pickMagnifierStyle,
+} from "@/lib/lens";
+import { boxShape } from "@/lib/paths";
+import {
+  defaultStickerStyle,
+  forgetSticker,
+  loadRecentStickers,
+  pickStickerStyle,
+  rememberSticker,
+} from "@/lib/stickers";
+import {
+  encodeExport,
+  exportFilename,
+  exportFits,
+  ExportOptions,
+  formatFromFilename,
+  scaledExportSize,
+} from "@/lib/export";
+import { DEFAULT_FONT } from "@/lib/fonts";
+import { defaultTextStyle, pickTextStyle } from "@/lib/text";
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  hasChanges,
+  HistorySnapshot,
+  HistoryState,
+  pushHistory,
+} from "@/lib/history";
+import {
+  describeOverlay,
+  duplicateOverlay,
+  findOverlay,
+  nextZ,
+  removeOverlay,
+  restack,
+  translateOverlay,
+} from "@/lib/layers";
+import { Alignment, alignOffsets, distributeOffsets } from "@/lib/align";
+import { defaultSnapSettings } from "@/lib/snap";
+import {
+  defaultProjectSettings,
+  hydrateProject,
+  LoadedProject,
+  loadImage,
+  parseProject,
+  PROJECT_EXTENSION,
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  serializeProject,
+} from "@/lib/project";
 
 const fallbackImage = "";
+const emptySnapshot: HistorySnapshot = {
+  lenses: [],
+  stickers: [],
+  texts: [],
+  annotations: [],
+  strokes: [],
+};
+const redactionModes: Mode[] = ["blur", "pixelate", "fill", "noise"];
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+// saveBlob writes through the desktop save dialog when running in the
+// Electron shell and downloads otherwise. Returns false if cancelled.
+const saveBlob = async (blob: Blob, filename: string) => {
+  const desktop = getDesktopBridge();
+  if (!desktop) {
+    downloadBlob(blob, filename);
+    return true;
+  }
+  const extension = filename.split(".").pop() ?? "";
+  const target = await desktop.showSaveDialog({
+    defaultPath: filename,
+    filters: [{ name: extension.toUpperCase(), extensions: [extension] }],
+  });
+  if (!target) return false;
+  await desktop.writeFile(target, new Uint8Array(await blob.arrayBuffer()));
+  return true;
+};
 
 export default function Home() {
   // Central app state: current image, overlays, and undo history.
   const [imageSrc, setImageSrc] = useState<string>(fallbackImage);
+  // Path of the opened image file in the desktop app; Save writes back to it.
+  const [filePath, setFilePath] = useState<string | null>(null);
   const [image, setImage] = useState<HTMLImageElement | null>(null);
   const [stickerSrc, setStickerSrc] = useState<string | null>(null);
   const [stickerImage, setStickerImage] = useState<HTMLImageElement | null>(
     null,
   );
-  const [mode, setMode] = useState<Mode>("blur");
-  const [lensShape, setLensShape] = useState<LensShape>("circle");
-  const [lensSize, setLensSize] = useState(320);
-  const [blurAmount, setBlurAmount] = useState(12);
-  const [magnification, setMagnification] = useState(2);
+  // Uploaded stickers offered again in the library, newest first.
+  const [recentStickers, setRecentStickers] = useState<string[]>([]);
+  const [mode, setMode] = useState<Mode>(defaultProjectSettings.mode);
+  const [lensShape, setLensShape] = useState<LensShape>(defaultProjectSettings.lensShape);
+  const [lensSize, setLensSize] = useState(defaultProjectSettings.lensSize);
+  const [blurAmount, setBlurAmount] = useState(defaultProjectSettings.blurAmount);
+  const [blockSize, setBlockSize] = useState(defaultProjectSettings.blockSize);
+  const [fillColor, setFillColor] = useState(defaultProjectSettings.fillColor);
+  const [magnification, setMagnification] = useState(defaultProjectSettings.magnification);
+  const [lensEffect, setLensEffect] = useState(defaultLensEffect);
+  const [magnifierStyle, setMagnifierStyle] = useState(defaultMagnifierStyle);
+  const [stickerStyle, setStickerStyle] = useState(defaultStickerStyle);
   const [lenses, setLenses] = useState<Lens[]>([]);
   const [stickers, setStickers] = useState<Sticker[]>([]);
   const [texts, setTexts] = useState<TextOverlay[]>([]);
-  const [textValue, setTextValue] = useState("Sample text");
-  const [textColor, setTextColor] = useState("#f5f5f5");
-  const [textSize, setTextSize] = useState(28);
-  const textFont = "Terminus";
-  const [backgroundMode, setBackgroundMode] = useState<"black" | "white" | "image">("image");
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  // Stroke style for new annotations, remembered per annotation mode.
+  const [annotationStyles, setAnnotationStyles] = useState(defaultAnnotationStyles);
+  const [strokes, setStrokes] = useState<BrushStroke[]>([]);
+  const [brush, setBrush] = useState(defaultBrushSettings);
+  const [textValue, setTextValue] = useState(defaultProjectSettings.textValue);
+  const [textColor, setTextColor] = useState(defaultProjectSettings.textColor);
+  const [textSize, setTextSize] = useState(defaultProjectSettings.textSize);
+  const [textFont, setTextFont] = useState(DEFAULT_FONT);
+  const [textStyle, setTextStyle] = useState(defaultTextStyle);
+  const [backgroundMode, setBackgroundMode] = useState(defaultProjectSettings.backgroundMode);
   const stageRef = useRef<StageHandle>(null);
-  const historyRef = useRef<{ lenses: Lens[]; stickers: Sticker[]; texts: TextOverlay[] }[]>([]);
-  const isUndoingRef = useRef(false);
+  // Mirror of the stage's display -> image mapping for rendering the inspector.
+  const [stageTransform, setStageTransform] = useState<SceneTransform>({
+    offsetX: 0,
+    offsetY: 0,
+    scale: 1,
+  });
+  const [selection, setSelection] = useState<Selection | null>(null);
+  // Overlays picked with Shift+click for align/distribute. Only counts while
+  // it still holds the selection; see activeGroup.
+  const [group, setGroup] = useState<Selection[]>([]);
+  const [snap, setSnap] = useState(defaultSnapSettings);
+  // Detector suggestions, already mapped into display coordinates.
+  const [suggestions, setSuggestions] = useState<Detection[]>([]);
+  const [detectStatus, setDetectStatus] = useState<string | null>(null);
+  // Shown after a scan that could not look for faces.
+  const [detectNote, setDetectNote] = useState<string | null>(null);
+  // Bumped whenever another image or project opens, so a scan still running
+  // for the previous image drops its results.
+  const detectTokenRef = useRef(0);
+  // Pasted/dropped image waiting for the user to pick sticker vs. replace.
+  const [pendingInput, setPendingInput] = useState<{
+    src: string;
+    point?: { x: number; y: number };
+  } | null>(null);
+  // 1x output size while the export dialog is open.
+  const [exportSize, setExportSize] = useState<{ width: number; height: number } | null>(
+    null,
+  );
+  const [exporting, setExporting] = useState(false);
+  const [history, setHistory] = useState<HistoryState>(() =>
+    createHistory("New canvas", emptySnapshot),
+  );
+  // Changes sharing a merge key within one gesture collapse into a single
+  // history entry (e.g. every pointermove of a drag, or a slider drag). The
+  // key is cleared when the gesture ends.
+  const mergeKeyRef = useRef<string | null>(null);
+  // Project waiting for its base image to load before overlays are mapped in.
+  const pendingProjectRef = useRef<LoadedProject | null>(null);
+  const [projectRevision, setProjectRevision] = useState(0);
 
-  const pushHistory = (
-    lensSnapshot: Lens[],
-    stickerSnapshot: Sticker[],
-    textSnapshot: TextOverlay[],
+  const commit = (
+    label: string,
+    next: Partial<HistorySnapshot>,
+    mergeKey?: string,
   ) => {
-    if (isUndoingRef.current) return;
-    const trimmed = historyRef.current.slice(-49);
-    trimmed.push({
-      lenses: lensSnapshot.map((l) => ({ ...l })),
-      stickers: stickerSnapshot.map((s) => ({ ...s })),
-      texts: textSnapshot.map((t) => ({ ...t })),
-    });
-    historyRef.current = trimmed;
-  };
-
-  const handleUndo = () => {
-    if (historyRef.current.length === 0) return;
-    const snapshot = historyRef.current.pop();
-    if (!snapshot) return;
-    isUndoingRef.current = true;
+    const snapshot = {
+      lenses: next.lenses ?? lenses,
+      stickers: next.stickers ?? stickers,
+      texts: next.texts ?? texts,
+      annotations: next.annotations ?? annotations,
+      strokes: next.strokes ?? strokes,
+    };
+    const merge = mergeKey !== undefined && mergeKeyRef.current === mergeKey;
+    mergeKeyRef.current = mergeKey ?? null;
     setLenses(snapshot.lenses);
     setStickers(snapshot.stickers);
     setTexts(snapshot.texts);
-    setTimeout(() => {
-      isUndoingRef.current = false;
-    }, 0);
+    setAnnotations(snapshot.annotations);
+    setStrokes(snapshot.strokes);
+    setHistory((prev) => pushHistory(prev, label, snapshot, merge));
+  };
+
+  const restoreHistory = (index: number) => {
+    const entry = history.entries[index];
+    if (!entry) return;
+    mergeKeyRef.current = null;
+    setLenses(entry.lenses);
+    setStickers(entry.stickers);
+    setTexts(entry.texts);
+    setAnnotations(entry.annotations);
+    setStrokes(entry.strokes);
+    setHistory((prev) => ({ ...prev, index }));
+  };
+
+  // discreteEdit runs a one-off edit (an inspector field or select) as its
+  // own history step: neither an earlier gesture nor a later drag merges
+  // with it.
+  const discreteEdit = (edit: () => void) => {
+    mergeKeyRef.current = null;
+    edit();
+    mergeKeyRef.current = null;
+  };
+
+  // A native "change" ends a panel edit (slider released, box ticked, colour
+  // picked), so the next edit of the same overlay starts a new history step.
+  // It bubbles to the window after React has handled the edit.
+  useEffect(() => {
+    const endEdit = () => {
+      mergeKeyRef.current = null;
+    };
+    window.addEventListener("change", endEdit);
+    return () => window.removeEventListener("change", endEdit);
+  }, []);
+
+  const handleUndo = () => {
+    if (canUndo(history)) restoreHistory(history.index - 1);
+  };
+
+  const handleRedo = () => {
+    if (canRedo(history)) restoreHistory(history.index + 1);
   };
 
   useEffect(() => {
@@ -89,11 +295,182 @@ export default function Home() {
     img.src = stickerSrc;
   }, [stickerSrc]);
 
-  // Using local Terminus font only; skip dynamic font fetching.
+  // localStorage only exists in the browser, so recents load after mount.
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setRecentStickers(loadRecentStickers());
+  }, []);
+
+  useEffect(() => {
+    const pending = pendingProjectRef.current;
+    if (!pending) return;
+    // Wait until the stage shows the project's image (or none).
+    if (pending.image ? image?.src !== pending.image : image) return;
+    const transform = stageRef.current?.getTransform();
+    if (!transform) return;
+    pendingProjectRef.current = null;
+    const toDisplay = invertTransform(transform);
+    const snapshot = {
+      lenses: pending.lenses.map((lens) => mapLens(lens, toDisplay)),
+      stickers: pending.stickers.map((sticker) => mapSticker(sticker, toDisplay)),
+      texts: pending.texts.map((text) => mapText(text, toDisplay)),
+      annotations: pending.annotations.map((annotation) =>
+        mapAnnotation(annotation, toDisplay),
+      ),
+      strokes: pending.strokes,
+    };
+    mergeKeyRef.current = null;
+    setLenses(snapshot.lenses);
+    setStickers(snapshot.stickers);
+    setTexts(snapshot.texts);
+    setAnnotations(snapshot.annotations);
+    setStrokes(snapshot.strokes);
+    setSelection(null);
+    setSuggestions([]);
+    setHistory(createHistory("Open project", snapshot));
+  }, [image, projectRevision]);
+
+  const handleLensAdd = (lens: Lens) => {
+    commit(`Add ${lens.mode} lens`, { lenses: [...lenses, lens] });
+  };
+
+  const handleLensUpdate = (id: string, payload: Partial<Lens>) => {
+    const lens = lenses.find((l) => l.id === id);
+    if (!lens || !hasChanges(lens, payload)) return;
+    const action =
+      "rotation" in payload
+        ? "Rotate"
+        : "imagePoints" in payload && "width" in payload
+          ? "Reshape"
+          : "width" in payload
+            ? "Resize"
+            : "x" in payload
+              ? "Move"
+              : "sourceImageX" in payload
+                ? "Aim"
+                : "Edit";
+    const label = `${action} ${lens.mode} lens`;
+    commit(
+      label,
+      { lenses: lenses.map((l) => (l.id === id ? { ...l, ...payload } : l)) },
+      `lens:${id}:${label}`,
+    );
+  };
+
+  // handleDelete removes the selected overlay and reports whether it did.
+  const handleDelete = () => {
+    const snapshot = { lenses, stickers, texts, annotations };
+    if (!selection || !findOverlay(snapshot, selection)) return false;
+    commit(
+      `Delete ${describeOverlay(snapshot, selection)}`,
+      removeOverlay(snapshot, selection),
+    );
+    setSelection(null);
+    return true;
+  };
+
+  const handleDuplicate = () => {
+    const snapshot = { lenses, stickers, texts, annotations };
+    if (!selection) return;
+    const result = duplicateOverlay(
+      snapshot,
+      selection,
+      16,
+      stageRef.current?.getTransform().scale ?? 1,
+    );
+    if (!result) return;
+    commit(`Duplicate ${describeOverlay(snapshot, selection)}`, result.snapshot);
+    setSelection(result.selection);
+  };
+
+  const sameOverlay = (a: Selection) => (b: Selection) => a.kind === b.kind && a.id === b.id;
+  const activeGroup =
+    selection && group.some(sameOverlay(selection))
+      ? group.filter((item) => findOverlay({ lenses, stickers, texts, annotations }, item))
+      : [];
+
+  const handleSelect = (next: Selection | null) => {
+    setSelection(next);
+    setGroup([]);
+  };
+
+  // Shift+click grows the multi-selection from the current selection, or
+  // drops an overlay that is already in it.
+  const handleSelectionToggle = (picked: Selection) => {
+    const current = activeGroup.length ? activeGroup : selection ? [selection] : [];
+    const included = current.some(sameOverlay(picked));
+    const next = included
+      ? current.filter((item) => !sameOverlay(picked)(item))
+      : [...current, picked];
+    setGroup(next.length > 1 ? next : []);
+    setSelection(included ? (next[next.length - 1] ?? null) : picked);
+  };
+
+  // moveGroup shifts each overlay of the multi-selection as one undo step.
+  const moveGroup = (
+    label: string,
+    shiftsFor: (boxes: { x: number; y: number; width: number; height: number }[]) => {
+      dx: number;
+      dy: number;
+    }[],
+  ) => {
+    const boxes = activeGroup.map((item) => stageRef.current?.getBounds(item) ?? null);
+    if (boxes.length < 2 || boxes.some((box) => !box)) return;
+    const shifts = shiftsFor(boxes as NonNullable<(typeof boxes)[number]>[]);
+    const snapshot = activeGroup.reduce(
+      (next, item, index) =>
+        translateOverlay(next, item, shifts[index].dx, shifts[index].dy, stageTransform.scale),
+      { lenses, stickers, texts, annotations },
+    );
+    commit(label, snapshot);
+  };
+
+  const handleAlign = (alignment: Alignment) => {
+    moveGroup(`Align ${activeGroup.length} overlays ${alignment}`, (boxes) =>
+      alignOffsets(boxes, alignment),
+    );
+  };
+
+  const handleDistribute = (axis: "x" | "y") => {
+    moveGroup(`Space ${activeGroup.length} overlays ${axis === "x" ? "across" : "down"}`, (boxes) =>
+      distributeOffsets(boxes, axis),
+    );
+  };
+
+  const handleRestack = (direction: 1 | -1) => {
+    const snapshot = { lenses, stickers, texts, annotations };
+    if (!selection) return;
+    const next = restack(snapshot, selection, direction);
+    if (!next) return;
+    const name = describeOverlay(snapshot, selection);
+    commit(
+      direction === 1 ? `Bring ${name} forward` : `Send ${name} backward`,
+      next,
+    );
+  };
 
   useEffect(() => {
     const handler = (event: KeyboardEvent) => {
-      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "z") {
+      const target = event.target as HTMLElement | null;
+      const isTyping = Boolean(
+        target?.closest("input, textarea, select, [contenteditable]"),
+      );
+      if (!isTyping && (event.key === "Delete" || event.key === "Backspace")) {
+        if (handleDelete()) event.preventDefault();
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (!isTyping && key === "d") {
+        event.preventDefault();
+        handleDuplicate();
+      } else if (!isTyping && (key === "]" || key === "[")) {
+        event.preventDefault();
+        handleRestack(key === "]" ? 1 : -1);
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        handleRedo();
+      } else if (key === "z") {
         event.preventDefault();
         handleUndo();
       }
@@ -102,73 +479,598 @@ export default function Home() {
     return () => window.removeEventListener("keydown", handler);
   });
 
-  const handleLensAdd = (lens: Lens) => {
-    pushHistory(lenses, stickers, texts);
-    setLenses((prev) => [...prev, lens]);
+  const handleDetect = async () => {
+    if (!image || detectStatus) return;
+    setDetectStatus("starting");
+    setDetectNote(null);
+    const token = detectTokenRef.current;
+    try {
+      const { detections, facesChecked } = await detectSensitiveRegions(image, setDetectStatus);
+      if (token !== detectTokenRef.current) return;
+      if (!facesChecked) {
+        setDetectNote(
+          "Face detection is not available in this browser, so only text was scanned. Check faces by hand.",
+        );
+      }
+      const transform = stageRef.current?.getTransform();
+      if (!transform) return;
+      const toDisplay = invertTransform(transform);
+      const padding = 4;
+      setSuggestions(
+        detections.map((detection) => {
+          const box = mapBox(detection, toDisplay);
+          return {
+            ...box,
+            x: box.x - padding,
+            y: box.y - padding,
+            width: box.width + padding * 2,
+            height: box.height + padding * 2,
+          };
+        }),
+      );
+    } catch (error) {
+      console.error("Detection failed:", error);
+      window.alert("Detection failed. See the console for details.");
+    } finally {
+      setDetectStatus(null);
+    }
+  };
+
+  const suggestionsToLenses = (accepted: Detection[]) => {
+    const transform = stageRef.current?.getTransform() ?? {
+      offsetX: 0,
+      offsetY: 0,
+      scale: 1,
+    };
+    const lensMode = redactionModes.includes(mode) ? mode : "blur";
+    const z = nextZ({ lenses, stickers, texts, annotations });
+    return accepted.map((box, index): Lens => {
+      const sourceX = box.x + box.width / 2;
+      const sourceY = box.y + box.height / 2;
+      return {
+        id: crypto.randomUUID(),
+        x: box.x,
+        y: box.y,
+        width: box.width,
+        height: box.height,
+        sourceX,
+        sourceY,
+        sourceImageX: (sourceX - transform.offsetX) / transform.scale,
+        sourceImageY: (sourceY - transform.offsetY) / transform.scale,
+        mode: lensMode,
+        shape: boxShape(lensShape),
+        blur: blurAmount,
+        blockSize,
+        fillColor,
+        magnification,
+        ...lensEffect,
+        ...magnifierStyle,
+        rotation: 0,
+        z: z + index,
+        createdAt: Date.now(),
+      };
+    });
+  };
+
+  const handleSuggestionsAccept = (ids: string[]) => {
+    const accepted = suggestions.filter((s) => ids.includes(s.id));
+    if (accepted.length === 0) return;
+    const added = suggestionsToLenses(accepted);
+    commit(
+      accepted.length === 1
+        ? `Add ${added[0].mode} lens`
+        : `Add ${accepted.length} suggested lenses`,
+      { lenses: [...lenses, ...added] },
+    );
+    setSuggestions((prev) => prev.filter((s) => !ids.includes(s.id)));
+  };
+
+  const handleSuggestionsReject = (ids: string[]) => {
+    setSuggestions((prev) => prev.filter((s) => !ids.includes(s.id)));
+  };
+
+  const openImage = (src: string) => {
+    detectTokenRef.current++;
+    setImageSrc(src);
+    setFilePath(null);
+    setBackgroundMode("image"); // show the loaded image immediately
+    setLenses([]);
+    setStickers([]);
+    setTexts([]);
+    setAnnotations([]);
+    setStrokes([]);
+    setSelection(null);
+    setSuggestions([]);
+    mergeKeyRef.current = null;
+    setHistory(createHistory("Open image", emptySnapshot));
+  };
+
+  const handleFilePicked = (file: File, path?: string) => {
+    // In the desktop app the file keeps its path for Recent Files. Save only
+    // writes back to files the shell opened itself (`path`); others go
+    // through the save dialog.
+    const desktop = getDesktopBridge();
+    const sourcePath = path ?? desktop?.getPathForFile(file) ?? "";
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const result = event.target?.result as string;
+      openImage(result);
+      if (desktop && sourcePath) {
+        if (path) setFilePath(path);
+        desktop.addRecentFile(sourcePath);
+      }
+    };
+    reader.readAsDataURL(file);
   };
 
-  const handleFilePicked = (file: File) => {
+  // Pasted or dropped images open directly on an empty stage; otherwise the
+  // user chooses between replacing the base image and adding a sticker.
+  const handleImageInput = (file: File, point?: { x: number; y: number }) => {
     const reader = new FileReader();
     reader.onload = (event) => {
       const result = event.target?.result as string;
-      setImageSrc(result);
-      setBackgroundMode("image"); // show the loaded image immediately
-      setLenses([]);
-      setStickers([]);
-      setTexts([]);
-      historyRef.current = [];
+      if (image) {
+        setPendingInput({ src: result, point });
+      } else {
+        openImage(result);
+      }
     };
     reader.readAsDataURL(file);
   };
 
+  const addStickerFromSource = async (
+    src: string,
+    point?: { x: number; y: number },
+  ) => {
+    const canvas = stageRef.current?.getCanvas();
+    if (!canvas) return;
+    const img = await loadImage(src);
+    setStickerSrc(src);
+    setRecentStickers(rememberSticker(recentStickers, src));
+    // Fit inside a lensSize square, the same as a click-placed sticker.
+    const ratio =
+      img.naturalWidth && img.naturalHeight ? img.naturalWidth / img.naturalHeight : 1;
+    const base = Math.min(lensSize, canvas.width, canvas.height);
+    const width = Math.max(40, ratio >= 1 ? base : base * ratio);
+    const height = Math.max(40, ratio >= 1 ? base / ratio : base);
+    const center = point ?? { x: canvas.width / 2, y: canvas.height / 2 };
+    const sticker: Sticker = {
+      id: crypto.randomUUID(),
+      x: Math.min(Math.max(center.x - width / 2, 0), canvas.width - width),
+      y: Math.min(Math.max(center.y - height / 2, 0), canvas.height - height),
+      width,
+      height,
+      image: img,
+      src,
+      ...stickerStyle,
+      rotation: 0,
+      flipX: false,
+      flipY: false,
+      crop: null,
+      z: nextZ({ lenses, stickers, texts, annotations }),
+    };
+    handleStickerAdd(sticker);
+    setSelection({ kind: "sticker", id: sticker.id });
+  };
+
+  const resolvePendingInput = (choice: "sticker" | "replace" | "cancel") => {
+    const pending = pendingInput;
+    setPendingInput(null);
+    if (!pending || choice === "cancel") return;
+    if (choice === "replace") {
+      openImage(pending.src);
+      return;
+    }
+    addStickerFromSource(pending.src, pending.point).catch((error) => {
+      console.error("Failed to add sticker:", error);
+    });
+  };
+
+  useEffect(() => {
+    const handler = (event: ClipboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable]")) return;
+      const file = Array.from(event.clipboardData?.files ?? []).find((f) =>
+        f.type.startsWith("image/"),
+      );
+      if (!file) return;
+      event.preventDefault();
+      handleImageInput(file);
+    };
+    window.addEventListener("paste", handler);
+    return () => window.removeEventListener("paste", handler);
+  });
+
   const handleReset = () => {
-    pushHistory(lenses, stickers, texts);
-    setLenses([]);
-    setStickers([]);
-    setTexts([]);
-    setStickerSrc((prev) => prev); // keep sticker source
+    // Sticker source is kept so the same sticker can be placed again.
+    commit("Reset", emptySnapshot);
+    setSelection(null);
   };
 
   const handleSave = () => {
-    const canvas = stageRef.current?.getCanvas();
+    const size = stageRef.current?.getExportSize();
+    if (!size) return;
+    setExportSize(size);
+  };
+
+  const handleExport = async (options: ExportOptions) => {
+    const base = stageRef.current?.getExportSize();
+    if (!base) return;
+    const size = scaledExportSize(base, options.scale);
+    if (!exportFits(size)) {
+      window.alert(
+        `The image is too large to export at ${options.scale}× (${size.width} × ${size.height}px). Pick a smaller scale.`,
+      );
+      return;
+    }
+    const canvas = stageRef.current?.exportCanvas(options.scale);
+    if (!canvas) return;
+    setExporting(true);
+    try {
+      const blob = await encodeExport(canvas, options);
+      if (await saveBlob(blob, exportFilename(options.filename, options.format))) {
+        setExportSize(null);
+      }
+    } catch (error) {
+      console.error("Failed to export image:", error);
+      window.alert(error instanceof Error ? error.message : "Export failed.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Desktop Save overwrites the opened image; Save As (or Save before any file
+  // is known) asks for a path. The format follows the file extension.
+  const handleSaveFile = async (saveAs: boolean) => {
+    const desktop = getDesktopBridge();
+    const canvas = stageRef.current?.exportCanvas();
+    if (!desktop || !canvas) return;
+    try {
+      const target =
+        !saveAs && filePath
+          ? filePath
+          : await desktop.showSaveDialog({
+              defaultPath: filePath ?? "pixel-blur.png",
+              filters: [{ name: "Images", extensions: ["png", "jpg", "jpeg", "webp"] }],
+            });
+      if (!target) return;
+      const format = formatFromFilename(target);
+      if (format !== "png" && format !== "jpeg" && format !== "webp") {
+        throw new Error("Save writes PNG, JPEG or WebP files. Use Export for other formats.");
+      }
+      const blob = await encodeExport(canvas, {
+        format,
+        quality: 0.92,
+        scale: 1,
+        filename: target,
+        stripMetadata: true,
+      });
+      await desktop.writeFile(target, new Uint8Array(await blob.arrayBuffer()));
+      setFilePath(target);
+      desktop.addRecentFile(target);
+    } catch (error) {
+      console.error("Failed to save image:", error);
+      window.alert(error instanceof Error ? error.message : "Save failed.");
+    }
+  };
+
+  const handleCopy = async () => {
+    const canvas = stageRef.current?.exportCanvas();
     if (!canvas) return;
+    try {
+      // Passing a promise keeps the clipboard write inside the user gesture
+      // (required by Safari) while the PNG is still encoding.
+      const blob = new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob((result) =>
+          result ? resolve(result) : reject(new Error("PNG encoding failed.")),
+        ),
+      );
+      await navigator.clipboard.write([new ClipboardItem({ "image/png": blob })]);
+    } catch (error) {
+      console.error("Failed to copy image:", error);
+      window.alert("Copying to the clipboard is not available here.");
+    }
+  };
 
-    canvas.toBlob((blob) => {
-      if (!blob) return;
-      const url = URL.createObjectURL(blob);
-      const anchor = document.createElement("a");
-      anchor.href = url;
-      anchor.download = "pixel-blur.png";
-      anchor.click();
-      URL.revokeObjectURL(url);
+  const handleProjectSave = () => {
+    const transform = stageRef.current?.getTransform();
+    if (!transform) return;
+    const json = serializeProject({
+      format: PROJECT_FORMAT,
+      version: PROJECT_VERSION,
+      image: imageSrc,
+      settings: {
+        mode,
+        lensShape,
+        lensSize,
+        blurAmount,
+        blockSize,
+        fillColor,
+        magnification,
+        lensEffect,
+        magnifierStyle,
+        stickerStyle,
+        textValue,
+        textColor,
+        textSize,
+        textStyle,
+        brush,
+        backgroundMode,
+        annotationStyles,
+        snap,
+      },
+      lenses: lenses.map((lens) => mapLens(lens, transform)),
+      stickers: stickers.map((sticker) => mapSticker(sticker, transform)),
+      texts: texts.map((text) => mapText(text, transform)),
+      annotations: annotations.map((annotation) => mapAnnotation(annotation, transform)),
+      strokes,
     });
+    downloadBlob(
+      new Blob([json], { type: "application/json" }),
+      `pixel-blur${PROJECT_EXTENSION}`,
+    );
+  };
+
+  const handleProjectPicked = async (file: File) => {
+    try {
+      const project = await hydrateProject(parseProject(await file.text()));
+      const { settings } = project;
+      setMode(settings.mode);
+      setLensShape(settings.lensShape);
+      setLensSize(settings.lensSize);
+      setBlurAmount(settings.blurAmount);
+      setBlockSize(settings.blockSize);
+      setFillColor(settings.fillColor);
+      setMagnification(settings.magnification);
+      setLensEffect(settings.lensEffect);
+      setMagnifierStyle(settings.magnifierStyle);
+      setStickerStyle(settings.stickerStyle);
+      setTextValue(settings.textValue);
+      setTextColor(settings.textColor);
+      setTextSize(settings.textSize);
+      setTextStyle(settings.textStyle);
+      setBrush(settings.brush);
+      setBackgroundMode(settings.backgroundMode);
+      setAnnotationStyles(settings.annotationStyles);
+      setSnap(settings.snap);
+      detectTokenRef.current++;
+      setImageSrc(project.image);
+      setFilePath(null);
+      pendingProjectRef.current = project;
+      setProjectRevision((prev) => prev + 1);
+    } catch (error) {
+      console.error("Failed to open project:", error);
+      window.alert(error instanceof Error ? error.message : "Failed to open project.");
+    }
   };
 
+  // Files and commands from the desktop shell's native File menu.
+  useEffect(() => {
+    const desktop = getDesktopBridge();
+    if (!desktop) return;
+    const offOpen = desktop.onOpenFile(({ path, name, data }) => {
+      const file = new File([new Uint8Array(data)], name);
+      if (name.toLowerCase().endsWith(PROJECT_EXTENSION)) {
+        handleProjectPicked(file);
+      } else {
+        handleFilePicked(file, path);
+      }
+    });
+    const offMenu = desktop.onMenuCommand((command) => {
+      if (command === "export") handleSave();
+      else handleSaveFile(command === "save-as");
+    });
+    return () => {
+      offOpen();
+      offMenu();
+    };
+  });
+
   const handleStickerPicked = (file: File) => {
     const reader = new FileReader();
     reader.onload = (event) => {
       const result = event.target?.result as string;
       setStickerSrc(result);
-      historyRef.current = [];
+      setRecentStickers(rememberSticker(recentStickers, result));
     };
     reader.readAsDataURL(file);
   };
 
+  const handleStickerForget = (src: string) => {
+    setRecentStickers(forgetSticker(recentStickers, src));
+  };
+
   const handleStickerAdd = (sticker: Sticker) => {
-    pushHistory(lenses, stickers, texts);
-    setStickers((prev) => [...prev, sticker]);
+    commit("Add sticker", { stickers: [...stickers, sticker] });
+  };
+
+  const handleStickerUpdate = (id: string, payload: Partial<Sticker>) => {
+    const sticker = stickers.find((s) => s.id === id);
+    if (!sticker || !hasChanges(sticker, payload)) return;
+    const action =
+      "rotation" in payload
+        ? "Rotate"
+        : "crop" in payload
+          ? "Crop"
+          : "width" in payload
+            ? "Resize"
+            : "x" in payload
+              ? "Move"
+              : "flipX" in payload || "flipY" in payload
+                ? "Flip"
+                : "Edit";
+    const label = `${action} sticker`;
+    commit(
+      label,
+      {
+        stickers: stickers.map((s) => (s.id === id ? { ...s, ...payload } : s)),
+      },
+      `sticker:${id}:${label}`,
+    );
   };
 
   const handleTextAdd = (text: TextOverlay) => {
     if (!text.text.trim()) return;
-    pushHistory(lenses, stickers, texts);
-    setTexts((prev) => [...prev, text]);
+    commit("Add text", { texts: [...texts, text] });
+  };
+
+  const handleTextUpdate = (id: string, payload: Partial<TextOverlay>) => {
+    const text = texts.find((t) => t.id === id);
+    if (!text || !hasChanges(text, payload)) return;
+    const keys = Object.keys(payload);
+    const action =
+      "rotation" in payload
+        ? "Rotate"
+        : "x" in payload
+          ? "Move"
+          : keys.length === 1 && keys[0] === "size"
+            ? "Resize"
+            : "Edit";
+    const label = `${action} text`;
+    commit(
+      label,
+      { texts: texts.map((t) => (t.id === id ? { ...t, ...payload } : t)) },
+      `text:${id}:${label}`,
+    );
+  };
+
+  const handleAnnotationAdd = (annotation: Annotation) => {
+    commit(`Add ${annotationLabels[annotation.mode]}`, {
+      annotations: [...annotations, annotation],
+    });
+  };
+
+  const handleAnnotationUpdate = (next: Annotation) => {
+    const annotation = annotations.find((a) => a.id === next.id);
+    if (!annotation || !hasChanges(annotation, next)) return;
+    const before = annotationBounds(annotation);
+    const after = annotationBounds(next);
+    const action =
+      before.width !== after.width || before.height !== after.height
+        ? "Resize"
+        : before.x !== after.x || before.y !== after.y
+          ? "Move"
+          : "Edit";
+    const label = `${action} ${annotationLabels[next.mode]}`;
+    commit(
+      label,
+      { annotations: annotations.map((a) => (a.id === next.id ? next : a)) },
+      `annotation:${next.id}:${label}`,
+    );
+  };
+
+  // The stroke controls edit the selected annotation when there is one,
+  // otherwise the defaults for the current annotation mode.
+  const selectedAnnotation =
+    selection?.kind === "annotation"
+      ? annotations.find((a) => a.id === selection.id)
+      : undefined;
+  const styleMode: AnnotationMode | null =
+    selectedAnnotation?.mode ?? (isAnnotationMode(mode) ? mode : null);
+
+  const handleAnnotationStyleChange = (patch: Partial<AnnotationStyle>) => {
+    if (!styleMode) return;
+    setAnnotationStyles((prev) => ({
+      ...prev,
+      [styleMode]: { ...prev[styleMode], ...patch },
+    }));
+    if (selectedAnnotation) {
+      handleAnnotationUpdate({ ...selectedAnnotation, ...patch });
+    }
+  };
+
+  // Feather and opacity edit the selected redaction lens when there is one,
+  // otherwise the settings for new lenses in a redaction mode.
+  const selectedLens =
+    selection?.kind === "lens" ? lenses.find((l) => l.id === selection.id) : undefined;
+  const effectLens = selectedLens?.mode !== "magnify" ? selectedLens : undefined;
+  const shownLensEffect = effectLens
+    ? pickLensEffect(effectLens)
+    : redactionModes.includes(mode)
+      ? lensEffect
+      : null;
+
+  const handleLensEffectChange = (patch: Partial<LensEffect>) => {
+    setLensEffect((prev) => ({ ...prev, ...patch }));
+    if (effectLens) handleLensUpdate(effectLens.id, patch);
+  };
+
+  // Magnifier style controls follow the same rule for magnifiers.
+  const styledMagnifier = selectedLens?.mode === "magnify" ? selectedLens : undefined;
+  const shownMagnifierStyle = styledMagnifier
+    ? pickMagnifierStyle(styledMagnifier)
+    : mode === "magnify"
+      ? magnifierStyle
+      : null;
+
+  const handleMagnifierStyleChange = (patch: Partial<MagnifierStyle>) => {
+    setMagnifierStyle((prev) => ({ ...prev, ...patch }));
+    if (styledMagnifier) handleLensUpdate(styledMagnifier.id, patch);
+  };
+
+  // The inspector covers lenses, stickers and text; annotations have their
+  // own style controls.
+  const selectedSticker =
+    selection?.kind === "sticker" ? stickers.find((s) => s.id === selection.id) : undefined;
+  const shownStickerStyle = selectedSticker
+    ? pickStickerStyle(selectedSticker)
+    : mode === "sticker"
+      ? stickerStyle
+      : null;
+
+  const handleStickerStyleChange = (patch: Partial<StickerStyle>) => {
+    setStickerStyle((prev) => ({ ...prev, ...patch }));
+    if (selectedSticker) handleStickerUpdate(selectedSticker.id, patch);
+  };
+  const selectedText =
+    selection?.kind === "text" ? texts.find((t) => t.id === selection.id) : undefined;
+  const inspected: InspectedOverlay | null = selectedLens
+    ? { kind: "lens", lens: selectedLens }
+    : selectedSticker
+      ? { kind: "sticker", sticker: selectedSticker }
+      : selectedText
+        ? { kind: "text", text: selectedText }
+        : null;
+
+  // Colour pickers report every step of a drag, so colour edits keep their
+  // merge key and the window "change" listener ends the step instead.
+  const handleInspectorLensUpdate = (id: string, payload: Partial<Lens>) => {
+    if (payload.fillColor !== undefined) handleLensUpdate(id, payload);
+    else discreteEdit(() => handleLensUpdate(id, payload));
+  };
+
+  const handleInspectorStickerUpdate = (id: string, payload: Partial<Sticker>) => {
+    discreteEdit(() => handleStickerUpdate(id, payload));
+  };
+
+  // Text colour and size edits also go to the text panel, whose live sync
+  // would otherwise put the old values back on the next panel change.
+  const handleInspectorTextUpdate = (id: string, payload: Partial<TextOverlay>) => {
+    if (payload.color !== undefined) handleTextUpdate(id, payload);
+    else discreteEdit(() => handleTextUpdate(id, payload));
+    if (payload.color !== undefined) setTextColor(payload.color);
+    if (payload.size !== undefined) setTextSize(payload.size);
   };
 
   const handleTextSelect = (text: TextOverlay) => {
     setTextValue(text.text);
     setTextColor(text.color);
     setTextSize(text.size);
+    setTextFont(text.font);
+    setTextStyle(pickTextStyle(text));
+  };
+
+  const handleTextStyleChange = (patch: Partial<TextStyle>) => {
+    setTextStyle((prev) => ({ ...prev, ...patch }));
+  };
+
+  // Every brush stroke is its own history step.
+  const handleStrokeAdd = (stroke: BrushStroke) => {
+    commit(stroke.erase ? "Erase blur" : "Paint blur", { strokes: [...strokes, stroke] });
+  };
+
+  const handleBrushChange = (patch: Partial<BrushSettings>) => {
+    setBrush((prev) => ({ ...prev, ...patch }));
   };
 
   return (
@@ -180,26 +1082,86 @@ export default function Home() {
             lensShape={lensShape}
             lensSize={lensSize}
             blurAmount={blurAmount}
+            blockSize={blockSize}
+            fillColor={fillColor}
             magnification={magnification}
+            lensEffect={shownLensEffect}
+            onLensEffectChange={handleLensEffectChange}
+            magnifierStyle={shownMagnifierStyle}
+            onMagnifierStyleChange={handleMagnifierStyleChange}
             canSave={Boolean(image)}
             textValue={textValue}
             textColor={textColor}
             textSize={textSize}
             textFont={textFont}
+            textStyle={textStyle}
             backgroundMode={backgroundMode}
             onModeChange={setMode}
             onLensShapeChange={setLensShape}
             onLensSizeChange={setLensSize}
             onBlurAmountChange={setBlurAmount}
+            onBlockSizeChange={setBlockSize}
+            onFillColorChange={setFillColor}
             onMagnificationChange={setMagnification}
             onTextChange={setTextValue}
             onTextColorChange={setTextColor}
             onTextSizeChange={setTextSize}
+            onTextFontChange={setTextFont}
+            onTextStyleChange={handleTextStyleChange}
+            brush={brush}
+            onBrushChange={handleBrushChange}
             onBackgroundModeChange={setBackgroundMode}
             onFilePicked={handleFilePicked}
             onStickerPicked={handleStickerPicked}
+            stickerStyle={shownStickerStyle}
+            onStickerStyleChange={handleStickerStyleChange}
+            stickerSrc={stickerSrc}
+            recentStickers={recentStickers}
+            onStickerChoose={setStickerSrc}
+            onStickerForget={handleStickerForget}
             onReset={handleReset}
             onSave={handleSave}
+            onCopy={handleCopy}
+            onProjectSave={handleProjectSave}
+            onProjectPicked={handleProjectPicked}
+            historyEntries={history.entries}
+            historyIndex={history.index}
+            onHistoryJump={restoreHistory}
+            hasSelection={Boolean(
+              selection && findOverlay({ lenses, stickers, texts, annotations }, selection),
+            )}
+            inspector={
+              inspected && (
+                <Inspector
+                  overlay={inspected}
+                  transform={stageTransform}
+                  onLensUpdate={handleInspectorLensUpdate}
+                  onStickerUpdate={handleInspectorStickerUpdate}
+                  onTextUpdate={handleInspectorTextUpdate}
+                />
+              )
+            }
+            onDelete={handleDelete}
+            onDuplicate={handleDuplicate}
+            onBringForward={() => handleRestack(1)}
+            onSendBackward={() => handleRestack(-1)}
+            groupSize={activeGroup.length}
+            onAlign={handleAlign}
+            onDistribute={handleDistribute}
+            snap={snap}
+            onSnapChange={(patch) => setSnap((prev) => ({ ...prev, ...patch }))}
+            canDetect={Boolean(image) && backgroundMode === "image"}
+            detectStatus={detectStatus}
+            detectNote={detectNote}
+            suggestions={suggestions}
+            onDetect={handleDetect}
+            onSuggestionsAccept={handleSuggestionsAccept}
+            onSuggestionsReject={handleSuggestionsReject}
+            annotationStyle={
+              styleMode ? (selectedAnnotation ?? annotationStyles[styleMode]) : null
+            }
+            annotationLabel={styleMode ? annotationLabels[styleMode] : ""}
+            onAnnotationStyleChange={handleAnnotationStyleChange}
           />
         </div>
 
@@ -210,48 +1172,91 @@ export default function Home() {
             lenses={lenses}
             stickers={stickers}
             texts={texts}
+            annotations={annotations}
+            annotationStyles={annotationStyles}
+            strokes={strokes}
+            brush={brush}
             stickerImage={stickerImage}
             mode={mode}
             lensShape={lensShape}
             lensSize={lensSize}
             blurAmount={blurAmount}
+            blockSize={blockSize}
+            fillColor={fillColor}
             magnification={magnification}
+            lensEffect={lensEffect}
+            magnifierStyle={magnifierStyle}
+            stickerStyle={stickerStyle}
             textValue={textValue}
             textColor={textColor}
             textSize={textSize}
             textFont={textFont}
+            textStyle={textStyle}
             backgroundMode={backgroundMode}
             onTextSelect={handleTextSelect}
             onLensAdd={handleLensAdd}
-            onLensUpdate={(id, payload) =>
-              setLenses((prev) => {
-                pushHistory(prev, stickers, texts);
-                return prev.map((lens) =>
-                  lens.id === id ? { ...lens, ...payload } : lens,
-                );
-              })
-            }
+            onLensUpdate={handleLensUpdate}
             onStickerAdd={handleStickerAdd}
-            onStickerUpdate={(id, payload) =>
-              setStickers((prev) => {
-                pushHistory(lenses, prev, texts);
-                return prev.map((sticker) =>
-                  sticker.id === id ? { ...sticker, ...payload } : sticker,
-                );
-              })
-            }
+            onStickerUpdate={handleStickerUpdate}
             onTextAdd={handleTextAdd}
-            onTextUpdate={(id, payload) =>
-              setTexts((prev) => {
-                pushHistory(lenses, stickers, prev);
-                return prev.map((text) =>
-                  text.id === id ? { ...text, ...payload } : text,
-                );
-              })
-            }
+            onTextUpdate={handleTextUpdate}
+            onAnnotationAdd={handleAnnotationAdd}
+            onAnnotationUpdate={handleAnnotationUpdate}
+            onStrokeAdd={handleStrokeAdd}
+            onInteractionEnd={() => {
+              mergeKeyRef.current = null;
+            }}
+            selection={selection}
+            onSelect={handleSelect}
+            group={activeGroup}
+            onSelectionToggle={handleSelectionToggle}
+            snap={snap}
+            suggestions={suggestions}
+            onImageDrop={handleImageInput}
+            onTransformChange={setStageTransform}
           />
         </div>
       </div>
+
+      {exportSize && (
+        <ExportDialog
+          baseWidth={exportSize.width}
+          baseHeight={exportSize.height}
+          busy={exporting}
+          onCancel={() => setExportSize(null)}
+          onExport={handleExport}
+        />
+      )}
+      {pendingInput && (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+          <div className="w-[min(360px,calc(100%-2rem))] rounded-2xl border border-white/10 bg-[#0b0b0b] p-5 shadow-[0_30px_90px_rgba(0,0,0,0.6)]">
+            <p className="mb-4 text-sm text-neutral-300">
+              An image is already open. Add the new image as a sticker, or replace the
+              current image?
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={() => resolvePendingInput("sticker")}
+                className="control-button control-compact"
+              >
+                Add Sticker
+              </button>
+              <button
+                onClick={() => resolvePendingInput("replace")}
+                className="control-button control-compact"
+              >
+                Replace Image
+              </button>
+              <button
+                onClick={() => resolvePendingInput("cancel")}
+                className="control-button control-compact col-span-2"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </main>
   );
 }
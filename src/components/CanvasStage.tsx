@@ -10,50 +10,137 @@ import {
   useState,
 } from "react";
 import {
+  Annotation,
+  AnnotationMode,
+  AnnotationStyle,
+  BrushSettings,
+  BrushStroke,
   Lens,
+  LensEffect,
   LensPreview,
   LensShape,
+  MagnifierStyle,
   Mode,
+  SceneTransform,
+  Selection,
   StageHandle,
+  SnapSettings,
   Sticker,
+  StickerStyle,
   TextOverlay,
+  TextStyle,
 } from "@/lib/types";
-import { renderScene } from "@/lib/canvas";
-
+import { getExportLayout, renderExport, renderScene } from "@/lib/canvas";
+import { createStroke } from "@/lib/brush";
+import { fontString } from "@/lib/fonts";
+import { defaultLensEffect, magnifierSource, SOURCE_HANDLE_REACH } from "@/lib/lens";
+import { textInset } from "@/lib/text";
+import {
+  boxCenter,
+  normalizeAngle,
+  pointerAngle,
+  ROTATION_HANDLE_OFFSET,
+  ROTATION_HANDLE_RADIUS,
+  ROTATION_SNAP,
+  rotatedBounds,
+  rotationHandle,
+  toLocalPoint,
+} from "@/lib/rotation";
+import { listLayers, nextZ } from "@/lib/layers";
+import { Guide, SNAP_DISTANCE, snapBox, snapLines } from "@/lib/snap";
+import {
+  boxShape,
+  extendPath,
+  isPathUsable,
+  PATH_CLOSE_DISTANCE,
+  PATH_MODES,
+  pathBounds,
+  pointInPolygon,
+  scalePath,
+  toDisplayPoints,
+  toImagePoints,
+  VERTEX_HANDLE_REACH,
+} from "@/lib/paths";
+import {
+  annotationBounds,
+  createAnnotation,
+  extendAnnotation,
+  isAnnotationMode,
+  isAnnotationUsable,
+  isWithinAnnotation,
+  nextStepNumber,
+  resizeAnnotation,
+  translateAnnotation,
+} from "@/lib/annotations";
+
+// measureText caches its results until `fontRevision` changes. The stage
+// bumps the revision when web fonts finish loading, which turns earlier
+// fallback estimates into real metrics.
 const measureText = (() => {
   let ctx: CanvasRenderingContext2D | null = null;
   if (typeof document !== "undefined") {
     const canvas = document.createElement("canvas");
     ctx = canvas.getContext("2d");
   }
-  return (text: string, font: string) => {
-    if (!ctx) {
-      return {
-        width: Math.max(30, text.length * 12 * 0.6),
-        actualBoundingBoxAscent: 12,
-        actualBoundingBoxDescent: 3,
-      };
+  const cache = new Map<string, { width: number; height: number }>();
+  let cachedRevision = -1;
+  return (text: string, font: string, fontRevision: number) => {
+    if (fontRevision !== cachedRevision) {
+      cache.clear();
+      cachedRevision = fontRevision;
     }
-    ctx.font = font;
-    const metrics = ctx.measureText(text);
-    const height =
-      (metrics.actualBoundingBoxAscent || 0) +
-        (metrics.actualBoundingBoxDescent || 0) ||
-      parseInt(font, 10) * 1.2;
-    return { width: Math.max(30, metrics.width), height };
+    const key = `${font}\n${text}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+    // Metrics taken before the font has loaded would describe the fallback
+    // font, so estimate instead and start the load.
+    const ready = typeof document === "undefined" || document.fonts.check(font);
+    if (!ready) void document.fonts.load(font).catch(() => undefined);
+    let result: { width: number; height: number };
+    if (!ctx || !ready) {
+      const size = parseInt(font, 10) || 12;
+      result = { width: Math.max(30, text.length * size * 0.6), height: size * 1.2 };
+    } else {
+      ctx.font = font;
+      const metrics = ctx.measureText(text);
+      const height =
+        (metrics.actualBoundingBoxAscent || 0) +
+          (metrics.actualBoundingBoxDescent || 0) ||
+        parseInt(font, 10) * 1.2;
+      result = { width: Math.max(30, metrics.width), height };
+    }
+    cache.set(key, result);
+    return result;
   };
 })();
 
-const estimateTextBounds = (text: string, size: number, font: string) => {
-  const fontString = `${size}px ${font.includes(" ") ? `'${font}'` : font}, Terminus, monospace`;
+const estimateTextBounds = (
+  text: string,
+  size: number,
+  font: string,
+  style: { bold: boolean; italic: boolean },
+  fontRevision: number,
+) => {
+  const spec = fontString(size, font, style);
   const lines = (text || "Text").split(/\r?\n/);
   const lineHeight = size * 1.2;
-  const widths = lines.map((line) => measureText(line || " ", fontString).width);
+  const widths = lines.map((line) => measureText(line || " ", spec, fontRevision).width);
   const width = Math.max(30, ...widths);
   const height = Math.max(lineHeight, lines.length * lineHeight);
   return { width, height, lineHeight, lines };
 };
 
+// On-screen view over the fitted scene: canvas pixel = scene * zoom + pan.
+// Overlays stay in scene coordinates, so zooming never changes the document.
+type View = { zoom: number; panX: number; panY: number };
+
+const FIT_VIEW: View = { zoom: 1, panX: 0, panY: 0 };
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 32;
+const ZOOM_STEP = 1.25;
+
+type Point = { x: number; y: number };
+
 // CanvasStage hosts the drawable surface, pointer handlers, and overlay rendering.
 type CanvasStageProps = {
   image: HTMLImageElement | null;
@@ -62,7 +149,15 @@ type CanvasStageProps = {
   lensShape: LensShape;
   lensSize: number;
   blurAmount: number;
+  blockSize: number;
+  fillColor: string;
   magnification: number;
+  // Feather and opacity for new redaction lenses.
+  lensEffect: LensEffect;
+  // Border, connector and zoom style for new lenses.
+  magnifierStyle: MagnifierStyle;
+  // Shape, opacity, outline and shadow for new stickers.
+  stickerStyle: StickerStyle;
   onLensAdd: (lens: Lens) => void;
   onLensUpdate: (id: string, lens: Partial<Lens>) => void;
   stickers: Sticker[];
@@ -74,10 +169,35 @@ type CanvasStageProps = {
   textColor: string;
   textSize: number;
   textFont: string;
+  textStyle: TextStyle;
   onTextAdd: (text: TextOverlay) => void;
   onTextUpdate: (id: string, sticker: Partial<TextOverlay>) => void;
+  annotations: Annotation[];
+  annotationStyles: Record<AnnotationMode, AnnotationStyle>;
+  onAnnotationAdd: (annotation: Annotation) => void;
+  onAnnotationUpdate: (annotation: Annotation) => void;
+  // Blur-brush strokes (image coordinates) and the brush tool settings.
+  strokes: BrushStroke[];
+  brush: BrushSettings;
+  onStrokeAdd: (stroke: BrushStroke) => void;
   backgroundMode: "black" | "white" | "image";
   onTextSelect: (text: TextOverlay) => void;
+  // Called when a pointer gesture finishes so history stops merging changes.
+  onInteractionEnd: () => void;
+  selection: Selection | null;
+  onSelect: (selection: Selection | null) => void;
+  // Every overlay in a multi-selection (empty for a single selection), and
+  // Shift+click adding an overlay to it or dropping one from it.
+  group: Selection[];
+  onSelectionToggle: (selection: Selection) => void;
+  // Smart guides and the pixel grid.
+  snap: SnapSettings;
+  // Suggested redaction boxes from the detector, in display coordinates.
+  suggestions: { x: number; y: number; width: number; height: number }[];
+  // Image file dropped onto the stage, with the drop point in canvas space.
+  onImageDrop: (file: File, point: { x: number; y: number }) => void;
+  // Reports the display -> image mapping whenever the fit changes.
+  onTransformChange: (transform: SceneTransform) => void;
 };
 
 const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
@@ -89,7 +209,12 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
       lensShape,
       lensSize,
     blurAmount,
+    blockSize,
+    fillColor,
     magnification,
+    lensEffect,
+    magnifierStyle,
+    stickerStyle,
     onLensAdd,
     onLensUpdate,
     stickers,
@@ -101,16 +226,36 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
     textColor,
     textSize,
     textFont,
+    textStyle,
     onTextAdd,
     onTextUpdate,
+    annotations,
+    annotationStyles,
+    onAnnotationAdd,
+    onAnnotationUpdate,
+    strokes,
+    brush,
+    onStrokeAdd,
     backgroundMode,
     onTextSelect,
+    onInteractionEnd,
+    selection,
+    onSelect,
+    group,
+    onSelectionToggle,
+    snap,
+    suggestions,
+    onImageDrop,
+    onTransformChange,
   },
   ref,
 ) => {
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const containerRef = useRef<HTMLDivElement | null>(null);
-    const [size, setSize] = useState({ width: 920, height: 620 });
+    const [containerSize, setContainerSize] = useState<{
+      width: number;
+      height: number;
+    } | null>(null);
     const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(
       null,
     );
@@ -122,7 +267,13 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
     const dragOffsetRef = useRef<{ dx: number; dy: number } | null>(null);
     const [resizeState, setResizeState] = useState<{
       id: string;
-      start: { x: number; y: number; width: number; height: number };
+      start: {
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+        imagePoints?: Point[];
+      };
       startPoint: { x: number; y: number };
     } | null>(null);
     const [activeStickerId, setActiveStickerId] = useState<string | null>(null);
@@ -140,7 +291,112 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
       start: { x: number; y: number; width: number; height: number };
       startPoint: { x: number; y: number };
     } | null>(null);
+    // Annotation being drawn, and the pointer position it started from.
+    const [draft, setDraft] = useState<Annotation | null>(null);
+    const draftStartRef = useRef<{ x: number; y: number } | null>(null);
+    // Move (left button) or resize (right button) of an existing annotation.
+    const [annotationDrag, setAnnotationDrag] = useState<{
+      start: Annotation;
+      startPoint: { x: number; y: number };
+      resize: boolean;
+    } | null>(null);
+    // Lasso/polygon outline being drawn for a path lens, in scene space.
+    // Polygons gain a vertex per click; lassos follow the pressed pointer.
+    const [pathDraft, setPathDraft] = useState<{
+      points: Point[];
+      polygon: boolean;
+    } | null>(null);
+    const [pathHover, setPathHover] = useState<Point | null>(null);
+    const lassoPressedRef = useRef(false);
+    // Vertex of the selected path lens being dragged.
+    const [vertexDrag, setVertexDrag] = useState<{ id: string; index: number } | null>(
+      null,
+    );
+    // Blur-brush stroke being painted (scene space) and the brush cursor.
+    const [brushDraft, setBrushDraft] = useState<Point[] | null>(null);
+    const [brushHover, setBrushHover] = useState<Point | null>(null);
+    // Snap guides shown while an overlay is moved.
+    const [guides, setGuides] = useState<Guide[]>([]);
+    // Magnifier whose source point is being dragged.
+    const [sourceDrag, setSourceDrag] = useState<string | null>(null);
+    // Rotation-handle drag on the selected overlay.
+    const [rotateState, setRotateState] = useState<{
+      selection: Selection;
+      center: { x: number; y: number };
+      startAngle: number;
+      startRotation: number;
+    } | null>(null);
     const effectiveImage = backgroundMode === "image" ? image : null;
+    const pathTool = PATH_MODES.includes(mode) && lensShape === "path";
+    // Switching tools abandons an unfinished outline.
+    if (pathDraft && !pathTool) {
+      setPathDraft(null);
+      setPathHover(null);
+    }
+    if (brushHover && mode !== "brush") setBrushHover(null);
+    const backgroundColor =
+      backgroundMode === "white"
+        ? "#ffffff"
+        : backgroundMode === "black"
+          ? "#000000"
+          : "#0a0a0a";
+    const [view, setView] = useState<View>(FIT_VIEW);
+    // A new image starts fitted again.
+    const [viewImage, setViewImage] = useState(effectiveImage);
+    if (viewImage !== effectiveImage) {
+      setViewImage(effectiveImage);
+      setView(FIT_VIEW);
+    }
+    // Bumped when web fonts finish loading so text is re-measured and redrawn.
+    const [fontRevision, setFontRevision] = useState(0);
+    const [spaceHeld, setSpaceHeld] = useState(false);
+    // Whether the pointer is over the stage; Space only pans while it is, or
+    // while focus is inside the stage.
+    const pointerOverRef = useRef(false);
+    const panRef = useRef<{ start: { x: number; y: number }; view: View } | null>(null);
+    // Active touch pointers (canvas pixels) and the pinch they started.
+    const touchesRef = useRef(new Map<number, { x: number; y: number }>());
+    const pinchRef = useRef<{
+      distance: number;
+      center: { x: number; y: number };
+      view: View;
+    } | null>(null);
+
+    // Stage size is derived during render so it always matches the current
+    // image; anything reading the transform after a commit sees fresh values.
+    const size = useMemo(() => {
+      if (!containerSize) return { width: 920, height: 620 };
+      const maxWidth = Math.max(containerSize.width - 24, 480);
+      const maxHeight = Math.max(360, containerSize.height - 40);
+
+      if (effectiveImage) {
+        const ratio = Math.min(
+          maxWidth / effectiveImage.naturalWidth,
+          maxHeight / effectiveImage.naturalHeight,
+          1,
+        );
+
+        return {
+          width: Math.max(420, Math.round(effectiveImage.naturalWidth * ratio)),
+          height: Math.max(320, Math.round(effectiveImage.naturalHeight * ratio)),
+        };
+      }
+
+      // Fallback size when no image is loaded (for text-on-blank workflows).
+      // Target 1920x1080 canvas, scaled down to fit the viewport while preserving 16:9.
+      const targetW = 1920;
+      const targetH = 1080;
+      let width = Math.min(maxWidth, targetW);
+      let height = Math.round(width * (targetH / targetW));
+      if (height > maxHeight) {
+        height = maxHeight;
+        width = Math.round(height * (targetW / targetH));
+      }
+      return {
+        width: Math.max(640, width),
+        height: Math.max(360, height),
+      };
+    }, [containerSize, effectiveImage]);
 
     const imageMetrics = useMemo(() => {
       if (!effectiveImage) return null;
@@ -155,11 +411,122 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
       return { scale, offsetX, offsetY, drawWidth, drawHeight };
     }, [effectiveImage, size.height, size.width]);
 
+    // Display -> image mapping; path outlines are stored through it.
+    const fitTransform = useMemo(
+      () =>
+        imageMetrics
+          ? {
+              offsetX: imageMetrics.offsetX,
+              offsetY: imageMetrics.offsetY,
+              scale: imageMetrics.scale,
+            }
+          : { offsetX: 0, offsetY: 0, scale: 1 },
+      [imageMetrics],
+    );
+
+    useEffect(() => {
+      onTransformChange(fitTransform);
+    }, [fitTransform, onTransformChange]);
+
+    // lensOutline is a path lens's outline in scene space.
+    const lensOutline = useCallback(
+      (lens: Lens) =>
+        lens.shape === "path" && lens.imagePoints
+          ? toDisplayPoints(lens.imagePoints, fitTransform)
+          : undefined,
+      [fitTransform],
+    );
+
+    // overlayBox is an overlay's selection outline.
+    const overlayBox = useCallback(
+      (target: Selection) => {
+        if (target.kind === "annotation") {
+          const annotation = annotations.find((a) => a.id === target.id);
+          return annotation
+            ? { ...annotationBounds(annotation), rotation: 0, handle: false }
+            : null;
+        }
+        if (target.kind === "text") {
+          const text = texts.find((t) => t.id === target.id);
+          if (!text) return null;
+          const { x, y, width, height } = getTextBounds(text, fontRevision);
+          return { x, y, width, height, rotation: text.rotation, handle: true };
+        }
+        if (target.kind === "lens") {
+          const lens = lenses.find((l) => l.id === target.id);
+          return lens
+            ? {
+                x: lens.x,
+                y: lens.y,
+                width: lens.width,
+                height: lens.height,
+                rotation: lens.rotation,
+                handle: lens.shape === "rounded",
+                vertices: lensOutline(lens),
+              }
+            : null;
+        }
+        const sticker = stickers.find((s) => s.id === target.id);
+        return sticker
+          ? {
+              x: sticker.x,
+              y: sticker.y,
+              width: sticker.width,
+              height: sticker.height,
+              rotation: sticker.rotation,
+              handle: true,
+            }
+          : null;
+      },
+      [annotations, fontRevision, lensOutline, lenses, stickers, texts],
+    );
+
     useImperativeHandle(ref, () => ({
       getCanvas: () => canvasRef.current,
+      exportCanvas: (scale = 1) =>
+        renderExport({
+          image: effectiveImage,
+          lenses,
+          stickers,
+          texts,
+          annotations,
+          strokes,
+          displayWidth: size.width,
+          displayHeight: size.height,
+          backgroundColor,
+          outputScale: scale,
+        }),
+      getExportSize: () => {
+        const { width, height } = getExportLayout(
+          effectiveImage,
+          size.width,
+          size.height,
+        );
+        return { width, height };
+      },
+      getTransform: () => fitTransform,
+      getBounds: (target) => {
+        const box = overlayBox(target);
+        return box ? rotatedBounds(box, box.rotation) : null;
+      },
     }));
 
     const preview: LensPreview | null = useMemo(() => {
+      if (pathDraft) {
+        const points =
+          pathDraft.polygon && pathHover ? [...pathDraft.points, pathHover] : pathDraft.points;
+        return { ...pathBounds(points), shape: "path", points };
+      }
+      if (mode === "brush") {
+        if (!brushHover || !effectiveImage) return null;
+        return {
+          x: brushHover.x - brush.size / 2,
+          y: brushHover.y - brush.size / 2,
+          width: brush.size,
+          height: brush.size,
+          shape: "circle",
+        };
+      }
       if (mode === "text") return null;
       if (!dragStart || !dragCurrent) return null;
 
@@ -171,7 +538,7 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
           y: centerY - lensSize / 2,
           width: lensSize,
           height: lensSize,
-          shape: lensShape,
+          shape: boxShape(lensShape),
         };
       }
 
@@ -184,22 +551,151 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
         y,
         width,
         height,
-        shape: lensShape,
+        shape: mode === "sticker" ? stickerStyle.shape : boxShape(lensShape),
       };
-    }, [dragCurrent, dragStart, lensShape, lensSize, mode]);
+    }, [
+      brush.size,
+      brushHover,
+      dragCurrent,
+      dragStart,
+      effectiveImage,
+      lensShape,
+      lensSize,
+      mode,
+      pathDraft,
+      pathHover,
+      stickerStyle.shape,
+    ]);
 
-    const toCanvasPoint = useCallback(
-      (event: React.PointerEvent<HTMLCanvasElement>) => {
-        const rect = event.currentTarget.getBoundingClientRect();
-        const x =
-          ((event.clientX - rect.left) / rect.width) * (size.width || 1);
-        const y =
-          ((event.clientY - rect.top) / rect.height) * (size.height || 1);
-        return { x, y };
+    // Strokes to render, including the one being painted.
+    const paintedStrokes = useMemo(
+      () =>
+        brushDraft
+          ? [...strokes, createStroke(brushDraft, brush, blurAmount, fitTransform)]
+          : strokes,
+      [blurAmount, brush, brushDraft, fitTransform, strokes],
+    );
+
+    const selectionBox = useMemo(
+      () => (selection ? overlayBox(selection) : null),
+      [overlayBox, selection],
+    );
+    // The rest of a multi-selection is outlined too, without handles.
+    const groupBoxes = useMemo(
+      () =>
+        group
+          .filter((item) => item.kind !== selection?.kind || item.id !== selection?.id)
+          .map((item) => overlayBox(item))
+          .filter((box) => box !== null)
+          .map((box) => ({ ...box, handle: false, vertices: undefined })),
+      [group, overlayBox, selection],
+    );
+
+    // Pixel grid over the image, `snap.gridSize` image pixels apart.
+    const grid = useMemo(
+      () =>
+        snap.grid && imageMetrics
+          ? {
+              x: imageMetrics.offsetX,
+              y: imageMetrics.offsetY,
+              width: imageMetrics.drawWidth,
+              height: imageMetrics.drawHeight,
+              step: Math.max(snap.gridSize, 1) * imageMetrics.scale,
+            }
+          : null,
+      [imageMetrics, snap.grid, snap.gridSize],
+    );
+
+    // snapMove returns the shift that puts a moved overlay's box on the
+    // nearest guide (canvas centre, image edges, other overlays, grid) and
+    // shows the guides it used. Holding Alt moves freely.
+    const snapMove = (
+      box: { x: number; y: number; width: number; height: number },
+      target: Selection,
+      altKey: boolean,
+    ) => {
+      if (!snap.enabled || altKey) {
+        setGuides([]);
+        return { dx: 0, dy: 0 };
+      }
+      const boxes = listLayers({ lenses, stickers, texts, annotations })
+        .filter((layer) => layer.kind !== target.kind || layer.id !== target.id)
+        .map((layer) => overlayBox(layer))
+        .filter((other) => other !== null)
+        .map((other) => rotatedBounds(other, other.rotation));
+      if (imageMetrics) {
+        boxes.push({
+          x: imageMetrics.offsetX,
+          y: imageMetrics.offsetY,
+          width: imageMetrics.drawWidth,
+          height: imageMetrics.drawHeight,
+        });
+      }
+      const { dx, dy, guides: hit } = snapBox(
+        box,
+        snapLines(size, boxes),
+        SNAP_DISTANCE / view.zoom,
+        grid,
+      );
+      setGuides(hit);
+      return { dx, dy };
+    };
+
+    const suggestionPreviews = useMemo(
+      () => suggestions.map((box) => ({ ...box, shape: boxShape(lensShape) })),
+      [lensShape, suggestions],
+    );
+
+    // toViewPoint converts client coordinates into canvas pixels.
+    const toViewPoint = useCallback(
+      (clientX: number, clientY: number) => {
+        const rect = canvasRef.current?.getBoundingClientRect();
+        if (!rect || !rect.width || !rect.height) return { x: 0, y: 0 };
+        return {
+          x: ((clientX - rect.left) / rect.width) * (size.width || 1),
+          y: ((clientY - rect.top) / rect.height) * (size.height || 1),
+        };
       },
       [size.height, size.width],
     );
 
+    // toCanvasPoint returns the scene point under the pointer, undoing zoom/pan.
+    const toCanvasPoint = useCallback(
+      (event: { clientX: number; clientY: number }) => {
+        const point = toViewPoint(event.clientX, event.clientY);
+        return {
+          x: (point.x - view.panX) / view.zoom,
+          y: (point.y - view.panY) / view.zoom,
+        };
+      },
+      [toViewPoint, view],
+    );
+
+    // zoomAt scales the view by `factor`, keeping `anchor` (canvas pixels) fixed.
+    const zoomAt = useCallback((factor: number, anchor: { x: number; y: number }) => {
+      setView((current) => {
+        const zoom = clamp(current.zoom * factor, MIN_ZOOM, MAX_ZOOM);
+        const ratio = zoom / current.zoom;
+        return {
+          zoom,
+          panX: anchor.x - (anchor.x - current.panX) * ratio,
+          panY: anchor.y - (anchor.y - current.panY) * ratio,
+        };
+      });
+    }, []);
+
+    // zoomToActualSize shows image pixels 1:1 around the stage centre.
+    const zoomToActualSize = useCallback(() => {
+      const zoom = clamp(imageMetrics ? 1 / imageMetrics.scale : 1, MIN_ZOOM, MAX_ZOOM);
+      setView({
+        zoom,
+        panX: (size.width / 2) * (1 - zoom),
+        panY: (size.height / 2) * (1 - zoom),
+      });
+    }, [imageMetrics, size.height, size.width]);
+
+    const zoomPercent = Math.round(view.zoom * (imageMetrics?.scale ?? 1) * 100);
+
     const toImagePoint = useCallback(
       (point: { x: number; y: number }) => {
         if (!imageMetrics) return { x: point.x, y: point.y };
@@ -219,53 +715,201 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
       [effectiveImage?.naturalHeight, effectiveImage?.naturalWidth, imageMetrics],
     );
 
-    const computeSize = useCallback(() => {
-      const containerWidth = containerRef.current?.clientWidth ?? window.innerWidth ?? 1024;
-      const containerHeight = containerRef.current?.clientHeight ?? window.innerHeight ?? 900;
-      const maxWidth = Math.max(containerWidth - 24, 480);
-      const maxHeight = Math.max(360, containerHeight - 40);
-
-      if (effectiveImage) {
-        const ratio = Math.min(
-          maxWidth / effectiveImage.naturalWidth,
-          maxHeight / effectiveImage.naturalHeight,
-          1,
-        );
-
-        setSize({
-          width: Math.max(420, Math.round(effectiveImage.naturalWidth * ratio)),
-          height: Math.max(320, Math.round(effectiveImage.naturalHeight * ratio)),
-        });
-        return;
-      }
-
-      // Fallback size when no image is loaded (for text-on-blank workflows).
-      // Target 1920x1080 canvas, scaled down to fit the viewport while preserving 16:9.
-      const targetW = 1920;
-      const targetH = 1080;
-      let width = Math.min(maxWidth, targetW);
-      let height = Math.round(width * (targetH / targetW));
-      if (height > maxHeight) {
-        height = maxHeight;
-        width = Math.round(height * (targetW / targetH));
-      }
-      setSize({
-        width: Math.max(640, width),
-        height: Math.max(360, height),
+    const measureContainer = useCallback(() => {
+      setContainerSize({
+        width: containerRef.current?.clientWidth ?? window.innerWidth ?? 1024,
+        height: containerRef.current?.clientHeight ?? window.innerHeight ?? 900,
       });
-    }, [effectiveImage]);
+    }, []);
+
+    // addPathLens turns a finished lasso/polygon outline into a lens.
+    const addPathLens = (points: Point[]) => {
+      const bounds = pathBounds(points);
+      const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+      const imagePoint = toImagePoint(center);
+      const lens: Lens = {
+        id: crypto.randomUUID(),
+        ...bounds,
+        sourceX: center.x,
+        sourceY: center.y,
+        sourceImageX: imagePoint.x,
+        sourceImageY: imagePoint.y,
+        shape: "path",
+        mode,
+        blur: blurAmount,
+        blockSize,
+        fillColor,
+        magnification,
+        ...lensEffect,
+        ...magnifierStyle,
+        rotation: 0,
+        imagePoints: toImagePoints(points, fitTransform),
+        z: nextZ({ lenses, stickers, texts, annotations }),
+        createdAt: Date.now(),
+      };
+      onLensAdd(lens);
+      onSelect({ kind: "lens", id: lens.id });
+      setPathDraft(null);
+      setPathHover(null);
+    };
 
     const handlePointerDown = (
       event: React.PointerEvent<HTMLCanvasElement>,
     ) => {
       if (event.button === 2) event.preventDefault();
+
+      if (event.pointerType === "touch") {
+        const touches = touchesRef.current;
+        touches.set(event.pointerId, toViewPoint(event.clientX, event.clientY));
+        if (touches.size === 2) {
+          // A second finger turns the gesture into a pinch; drop whatever the
+          // first finger started.
+          const [a, b] = Array.from(touches.values());
+          pinchRef.current = {
+            distance: Math.hypot(a.x - b.x, a.y - b.y) || 1,
+            center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+            view,
+          };
+          setDragStart(null);
+          setDragCurrent(null);
+          setActiveLensId(null);
+          setActiveStickerId(null);
+          setDraft(null);
+          setAnnotationDrag(null);
+          setRotateState(null);
+          setBrushDraft(null);
+          textDragOffsetRef.current = null;
+          return;
+        }
+      }
+
+      if (spaceHeld || event.button === 1) {
+        event.preventDefault();
+        event.currentTarget.setPointerCapture(event.pointerId);
+        panRef.current = {
+          start: toViewPoint(event.clientX, event.clientY),
+          view,
+        };
+        return;
+      }
+
       const point = toCanvasPoint(event);
 
+      // While a polygon is open every click adds a vertex; clicking the first
+      // vertex again closes it.
+      if (pathDraft?.polygon) {
+        if (event.button !== 0) return;
+        const [first] = pathDraft.points;
+        const closeReach = PATH_CLOSE_DISTANCE / view.zoom;
+        if (
+          isPathUsable(pathDraft.points) &&
+          Math.hypot(point.x - first.x, point.y - first.y) <= closeReach
+        ) {
+          addPathLens(pathDraft.points);
+        } else {
+          setPathDraft({ ...pathDraft, points: [...pathDraft.points, point] });
+        }
+        return;
+      }
+
+      // The brush paints over overlays rather than picking them.
+      if (mode === "brush") {
+        if (event.button !== 0 || !effectiveImage) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        setBrushDraft([point]);
+        return;
+      }
+
+      // Vertex handles of a selected path lens come before everything else.
+      if (selection?.kind === "lens" && selectionBox?.vertices && event.button === 0) {
+        const reach = VERTEX_HANDLE_REACH / view.zoom;
+        const index = selectionBox.vertices.findIndex(
+          (vertex) => Math.hypot(point.x - vertex.x, point.y - vertex.y) <= reach,
+        );
+        if (index >= 0) {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          setVertexDrag({ id: selection.id, index });
+          return;
+        }
+      }
+
+      // The rotation handle sits outside the overlay, so check it first. Its
+      // offset is fixed in canvas pixels, hence the division by zoom.
+      if (selection && selectionBox?.handle && event.button === 0) {
+        const handle = rotationHandle(
+          selectionBox,
+          selectionBox.rotation,
+          ROTATION_HANDLE_OFFSET / view.zoom,
+        );
+        const reach = (ROTATION_HANDLE_RADIUS + 4) / view.zoom;
+        if (Math.hypot(point.x - handle.x, point.y - handle.y) <= reach) {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          const center = boxCenter(selectionBox);
+          setRotateState({
+            selection,
+            center,
+            startAngle: pointerAngle(center, point),
+            startRotation: selectionBox.rotation,
+          });
+          return;
+        }
+      }
+
+      // A magnifier's source dot re-aims it; the dot is small, so it wins over
+      // any overlay it sits on.
+      if (event.button === 0) {
+        const reach = SOURCE_HANDLE_REACH / view.zoom;
+        const aimed = topmost(
+          lenses.filter((lens) => {
+            if (lens.mode !== "magnify") return false;
+            const source = magnifierSource(lens, fitTransform);
+            return Math.hypot(point.x - source.x, point.y - source.y) <= reach;
+          }),
+        );
+        if (aimed) {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          onSelect({ kind: "lens", id: aimed.id });
+          setSourceDrag(aimed.id);
+          return;
+        }
+      }
+
+      // Hit-test every overlay kind and keep only the topmost in z order.
+      const textCandidate = topmost(texts.filter((t) => isWithinText(t, point, fontRevision)));
+      const stickerCandidate = topmost(
+        stickers.filter((s) => isWithinLens(s, point)),
+      );
+      const annotationCandidate = topmost(
+        annotations.filter((a) => isWithinAnnotation(a, point)),
+      );
+      const lensCandidate = topmost(
+        lenses.filter((lens) => isWithinLens(lens, point, lensOutline(lens))),
+      );
+      const topZ = Math.max(
+        textCandidate?.z ?? -Infinity,
+        stickerCandidate?.z ?? -Infinity,
+        annotationCandidate?.z ?? -Infinity,
+        lensCandidate?.z ?? -Infinity,
+      );
+
+      // Shift+click adds the topmost overlay to the multi-selection, or drops
+      // it, instead of starting a drag.
+      if (event.shiftKey && event.button === 0 && topZ > -Infinity) {
+        const picked: Selection =
+          textCandidate?.z === topZ
+            ? { kind: "text", id: textCandidate.id }
+            : stickerCandidate?.z === topZ
+              ? { kind: "sticker", id: stickerCandidate.id }
+              : annotationCandidate?.z === topZ
+                ? { kind: "annotation", id: annotationCandidate.id }
+                : { kind: "lens", id: lensCandidate!.id };
+        onSelectionToggle(picked);
+        return;
+      }
+
       // Text drag/resize hit-test.
-      const textHit = texts
-        .slice()
-        .reverse()
-        .find((t) => isWithinText(t, point));
+      const textHit = textCandidate?.z === topZ ? textCandidate : undefined;
+      if (textHit) onSelect({ kind: "text", id: textHit.id });
       if (textHit && event.button === 0) {
         event.currentTarget.setPointerCapture(event.pointerId);
         setActiveTextId(textHit.id);
@@ -278,7 +922,7 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
         return;
       }
       if (textHit && event.button === 2) {
-        const bounds = getTextBounds(textHit);
+        const bounds = getTextBounds(textHit, fontRevision);
         setActiveTextId(textHit.id);
         onTextSelect(textHit);
         setEditingText(textHit.text);
@@ -296,10 +940,9 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
       }
 
       // If clicking on an existing lens, start dragging it.
-      const stickerHit = stickers
-        .slice()
-        .reverse()
-        .find((s) => isWithinLens(s, point));
+      const stickerHit =
+        !textHit && stickerCandidate?.z === topZ ? stickerCandidate : undefined;
+      if (stickerHit) onSelect({ kind: "sticker", id: stickerHit.id });
       if (stickerHit && event.button === 0) {
         setActiveStickerId(stickerHit.id);
         stickerDragOffsetRef.current = {
@@ -322,10 +965,25 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
         return;
       }
 
-      const hit = lenses
-        .slice()
-        .reverse()
-        .find((lens) => isWithinLens(lens, point));
+      const annotationHit =
+        !textHit && !stickerHit && annotationCandidate?.z === topZ
+          ? annotationCandidate
+          : undefined;
+      if (annotationHit) onSelect({ kind: "annotation", id: annotationHit.id });
+      if (annotationHit && (event.button === 0 || event.button === 2)) {
+        setAnnotationDrag({
+          start: annotationHit,
+          startPoint: point,
+          resize: event.button === 2,
+        });
+        return;
+      }
+
+      const hit =
+        !textHit && !stickerHit && !annotationHit && lensCandidate?.z === topZ
+          ? lensCandidate
+          : undefined;
+      if (hit) onSelect({ kind: "lens", id: hit.id });
       if (hit && event.button === 0) {
         setActiveLensId(hit.id);
         dragOffsetRef.current = {
@@ -343,20 +1001,23 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
             y: hit.y,
             width: hit.width,
             height: hit.height,
+            imagePoints: hit.imagePoints,
           },
           startPoint: point,
         });
         return;
       }
 
-      if (!effectiveImage && mode !== "text") {
+      const missed = !textHit && !stickerHit && !annotationHit && !hit;
+      if (missed) onSelect(null);
+      if (!effectiveImage && mode !== "text" && !isAnnotationMode(mode)) {
         setActiveTextId(null);
         setEditingText("");
         textDragOffsetRef.current = null;
         return;
       }
       // Clicking empty space clears active text selection (and stops placement for this click).
-      if (!textHit && !stickerHit && !hit) {
+      if (missed) {
         if (activeTextId) {
           setActiveTextId(null);
           setEditingText("");
@@ -364,13 +1025,146 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
           return;
         }
       }
+      if (isAnnotationMode(mode)) {
+        if (event.button !== 0) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        draftStartRef.current = point;
+        setDraft(
+          createAnnotation(
+            mode,
+            point,
+            annotationStyles[mode],
+            nextZ({ lenses, stickers, texts, annotations }),
+            nextStepNumber(annotations),
+          ),
+        );
+        return;
+      }
+      if (pathTool) {
+        if (event.button !== 0) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        lassoPressedRef.current = true;
+        setPathDraft({ points: [point], polygon: false });
+        return;
+      }
       setDragStart(point);
       setDragCurrent(point);
     };
 
   const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (touchesRef.current.has(event.pointerId)) {
+      touchesRef.current.set(event.pointerId, toViewPoint(event.clientX, event.clientY));
+    }
+
+    const pinch = pinchRef.current;
+    if (pinch && touchesRef.current.size === 2) {
+      const [a, b] = Array.from(touchesRef.current.values());
+      const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      const zoom = clamp(
+        (pinch.view.zoom * Math.hypot(a.x - b.x, a.y - b.y)) / pinch.distance,
+        MIN_ZOOM,
+        MAX_ZOOM,
+      );
+      // Keep the scene point under the starting midpoint under the fingers.
+      const sceneX = (pinch.center.x - pinch.view.panX) / pinch.view.zoom;
+      const sceneY = (pinch.center.y - pinch.view.panY) / pinch.view.zoom;
+      setView({ zoom, panX: center.x - sceneX * zoom, panY: center.y - sceneY * zoom });
+      return;
+    }
+
+    if (panRef.current) {
+      const { start, view: startView } = panRef.current;
+      const current = toViewPoint(event.clientX, event.clientY);
+      setView({
+        ...startView,
+        panX: startView.panX + current.x - start.x,
+        panY: startView.panY + current.y - start.y,
+      });
+      return;
+    }
+
     const point = toCanvasPoint(event);
 
+      if (mode === "brush") setBrushHover(point);
+      if (brushDraft) {
+        setBrushDraft(extendPath(brushDraft, point));
+        return;
+      }
+
+      if (pathDraft) {
+        if (lassoPressedRef.current) {
+          setPathDraft({ ...pathDraft, points: extendPath(pathDraft.points, point) });
+        } else {
+          setPathHover(point);
+        }
+        return;
+      }
+
+      if (vertexDrag) {
+        const lens = lenses.find((l) => l.id === vertexDrag.id);
+        if (lens) {
+          const outline = lensOutline(lens);
+          if (outline) {
+            outline[vertexDrag.index] = point;
+            onLensUpdate(lens.id, {
+              ...pathBounds(outline),
+              imagePoints: toImagePoints(outline, fitTransform),
+            });
+          }
+        }
+        return;
+      }
+
+      if (sourceDrag) {
+        const imagePoint = toImagePoint(point);
+        const source = magnifierSource(
+          { sourceImageX: imagePoint.x, sourceImageY: imagePoint.y },
+          fitTransform,
+        );
+        onLensUpdate(sourceDrag, {
+          sourceX: source.x,
+          sourceY: source.y,
+          sourceImageX: imagePoint.x,
+          sourceImageY: imagePoint.y,
+        });
+        return;
+      }
+
+      if (rotateState) {
+        const { selection: target, center, startAngle, startRotation } = rotateState;
+        const rotation = normalizeAngle(
+          startRotation + pointerAngle(center, point) - startAngle,
+          event.shiftKey ? ROTATION_SNAP : 0,
+        );
+        if (target.kind === "lens") onLensUpdate(target.id, { rotation });
+        if (target.kind === "sticker") onStickerUpdate(target.id, { rotation });
+        if (target.kind === "text") onTextUpdate(target.id, { rotation });
+        return;
+      }
+
+      if (draft && draftStartRef.current) {
+        setDraft(extendAnnotation(draft, draftStartRef.current, point));
+        return;
+      }
+
+      if (annotationDrag) {
+        const { start, startPoint, resize } = annotationDrag;
+        const dx = point.x - startPoint.x;
+        const dy = point.y - startPoint.y;
+        if (resize) {
+          onAnnotationUpdate(resizeAnnotation(start, dx, dy));
+          return;
+        }
+        const moved = translateAnnotation(start, dx, dy);
+        const shift = snapMove(
+          annotationBounds(moved),
+          { kind: "annotation", id: start.id },
+          event.altKey,
+        );
+        onAnnotationUpdate(translateAnnotation(moved, shift.dx, shift.dy));
+        return;
+      }
+
       if (textResizeState) {
         const { start, startPoint, id } = textResizeState;
         const dx = point.x - startPoint.x;
@@ -396,30 +1190,37 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
     if (activeTextId && textDragOffsetRef.current) {
       const text = texts.find((t) => t.id === activeTextId);
       if (text) {
-        const bounds = getTextBounds(text);
+        const bounds = getTextBounds(text, fontRevision);
+        // Keep the outline/background box on the canvas, not just the glyphs.
+        const inset = textInset(text);
+        const x = point.x - textDragOffsetRef.current.dx;
+        const y = point.y - textDragOffsetRef.current.dy;
+        const shift = snapMove(
+          rotatedBounds({ ...bounds, x: x - inset, y: y - inset }, text.rotation),
+          { kind: "text", id: text.id },
+          event.altKey,
+        );
         const newX = clamp(
-          point.x - textDragOffsetRef.current.dx,
-            0,
-            size.width - bounds.width,
+          x + shift.dx,
+            inset,
+            size.width - bounds.width + inset,
           );
           const newY = clamp(
-            point.y - textDragOffsetRef.current.dy,
-            0,
-            size.height - bounds.height,
+            y + shift.dy,
+            inset,
+            size.height - bounds.height + inset,
           );
           onTextUpdate(text.id, { x: newX, y: newY });
         }
         return;
       }
 
-      if (stickerResizeState && stickerImage) {
+      if (stickerResizeState) {
         const { start, startPoint, id } = stickerResizeState;
         const dx = point.x - startPoint.x;
         const dy = point.y - startPoint.y;
-        const ratio =
-          stickerImage.naturalWidth && stickerImage.naturalHeight
-            ? stickerImage.naturalWidth / stickerImage.naturalHeight
-            : 1;
+        // Keep the sticker's own proportions, not the library's current pick.
+        const ratio = start.width && start.height ? start.width / start.height : 1;
         let newWidth = start.width + dx;
         let newHeight = newWidth / ratio;
 
@@ -438,16 +1239,15 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
       if (activeStickerId && stickerDragOffsetRef.current) {
         const sticker = stickers.find((s) => s.id === activeStickerId);
         if (sticker) {
-          const newX = clamp(
-            point.x - stickerDragOffsetRef.current.dx,
-            0,
-            size.width - sticker.width,
-          );
-          const newY = clamp(
-            point.y - stickerDragOffsetRef.current.dy,
-            0,
-            size.height - sticker.height,
+          const x = point.x - stickerDragOffsetRef.current.dx;
+          const y = point.y - stickerDragOffsetRef.current.dy;
+          const shift = snapMove(
+            rotatedBounds({ ...sticker, x, y }, sticker.rotation),
+            { kind: "sticker", id: sticker.id },
+            event.altKey,
           );
+          const newX = clamp(x + shift.dx, 0, size.width - sticker.width);
+          const newY = clamp(y + shift.dy, 0, size.height - sticker.height);
           onStickerUpdate(sticker.id, { x: newX, y: newY });
         }
         return;
@@ -469,28 +1269,46 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
           newHeight = unified;
         }
 
-        onLensUpdate(id, { width: newWidth, height: newHeight });
+        // Path outlines stretch with their bounds, in image space.
+        let imagePoints: Point[] | undefined;
+        if (start.imagePoints) {
+          const from = pathBounds(start.imagePoints);
+          imagePoints = scalePath(start.imagePoints, from, {
+            ...from,
+            width: (from.width * newWidth) / start.width,
+            height: (from.height * newHeight) / start.height,
+          });
+        }
+        onLensUpdate(id, {
+          width: newWidth,
+          height: newHeight,
+          ...(imagePoints && { imagePoints }),
+        });
         return;
       }
 
       if (activeLensId && dragOffsetRef.current) {
         const lens = lenses.find((l) => l.id === activeLensId);
         if (lens) {
-          const newX = clamp(
-            point.x - dragOffsetRef.current!.dx,
-            0,
-            size.width - lens.width,
-          );
-          const newY = clamp(
-            point.y - dragOffsetRef.current!.dy,
-            0,
-            size.height - lens.height,
+          const x = point.x - dragOffsetRef.current!.dx;
+          const y = point.y - dragOffsetRef.current!.dy;
+          const shift = snapMove(
+            rotatedBounds({ ...lens, x, y }, lens.rotation),
+            { kind: "lens", id: lens.id },
+            event.altKey,
           );
+          const newX = clamp(x + shift.dx, 0, size.width - lens.width);
+          const newY = clamp(y + shift.dy, 0, size.height - lens.height);
+          const imageDx = (newX - lens.x) / fitTransform.scale;
+          const imageDy = (newY - lens.y) / fitTransform.scale;
           onLensUpdate(lens.id, {
             x: newX,
             y: newY,
             sourceX: lens.sourceX + (newX - lens.x),
             sourceY: lens.sourceY + (newY - lens.y),
+            ...(lens.imagePoints && {
+              imagePoints: lens.imagePoints.map((p) => ({ x: p.x + imageDx, y: p.y + imageDy })),
+            }),
           });
         }
         return;
@@ -506,6 +1324,60 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
       } catch {
         // ignore if not captured
       }
+      touchesRef.current.delete(event.pointerId);
+      if (event.type === "pointerleave") setBrushHover(null);
+      if (pinchRef.current) {
+        if (touchesRef.current.size < 2) pinchRef.current = null;
+        return;
+      }
+      if (panRef.current) {
+        panRef.current = null;
+        return;
+      }
+      setGuides([]);
+      onInteractionEnd();
+      if (brushDraft) {
+        onStrokeAdd(createStroke(brushDraft, brush, blurAmount, fitTransform));
+        setBrushDraft(null);
+        return;
+      }
+      if (pathDraft && lassoPressedRef.current) {
+        lassoPressedRef.current = false;
+        // A click without a drag starts a polygon instead of a lasso.
+        if (isPathUsable(pathDraft.points)) {
+          addPathLens(pathDraft.points);
+        } else {
+          setPathDraft({ points: [pathDraft.points[0]], polygon: true });
+        }
+        return;
+      }
+      if (vertexDrag) {
+        setVertexDrag(null);
+        return;
+      }
+      if (sourceDrag) {
+        setSourceDrag(null);
+        return;
+      }
+      if (rotateState) {
+        setRotateState(null);
+        return;
+      }
+      if (annotationDrag) {
+        setAnnotationDrag(null);
+        return;
+      }
+
+      if (draft) {
+        if (isAnnotationUsable(draft)) {
+          onAnnotationAdd(draft);
+          onSelect({ kind: "annotation", id: draft.id });
+        }
+        setDraft(null);
+        draftStartRef.current = null;
+        return;
+      }
+
       if (textResizeState) {
         setTextResizeState(null);
         return;
@@ -556,16 +1428,19 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
           content,
           textSize,
           textFont,
+          textStyle,
+          fontRevision,
         );
+        const inset = textInset({ size: textSize, ...textStyle });
         const x = clamp(
           (isClick ? dragStart.x - estWidth / 2 : Math.min(dragStart.x, end.x)),
-          0,
-          size.width - estWidth,
+          inset,
+          size.width - estWidth - inset,
         );
         const y = clamp(
           (isClick ? dragStart.y - estHeight / 2 : Math.min(dragStart.y, end.y)),
-          0,
-          size.height - estHeight,
+          inset,
+          size.height - estHeight - inset,
         );
 
         const id = crypto.randomUUID();
@@ -577,9 +1452,13 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
           color: textColor,
           size: textSize,
           font: textFont,
+          ...textStyle,
+          rotation: 0,
+          z: nextZ({ lenses, stickers, texts, annotations }),
         };
         onTextAdd(newText);
         onTextSelect(newText);
+        onSelect({ kind: "text", id });
         setActiveTextId(id);
         textDragOffsetRef.current = null;
         setDragStart(null);
@@ -620,15 +1499,23 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
         const clampedX = clamp(x, 0, size.width - clampedWidth);
         const clampedY = clamp(y, 0, size.height - clampedHeight);
 
+        const id = crypto.randomUUID();
         onStickerAdd({
-          id: crypto.randomUUID(),
+          id,
           x: clampedX,
           y: clampedY,
           width: clampedWidth,
           height: clampedHeight,
           image: stickerImage,
-          shape: lensShape,
+          src: stickerImage.src,
+          ...stickerStyle,
+          rotation: 0,
+          flipX: false,
+          flipY: false,
+          crop: null,
+          z: nextZ({ lenses, stickers, texts, annotations }),
         });
+        onSelect({ kind: "sticker", id });
 
         setDragStart(null);
         setDragCurrent(null);
@@ -667,10 +1554,16 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
           sourceY: clamp(dragStart.y, 0, size.height),
           sourceImageX: imagePoint.x,
           sourceImageY: imagePoint.y,
-          shape: lensShape,
+          shape: boxShape(lensShape),
           mode,
           blur: blurAmount,
+          blockSize,
+          fillColor,
           magnification,
+          ...defaultLensEffect,
+          ...magnifierStyle,
+          rotation: 0,
+          z: nextZ({ lenses, stickers, texts, annotations }),
           createdAt: Date.now(),
         };
       } else {
@@ -701,31 +1594,41 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
           sourceY: clampedY + clampedHeight / 2,
           sourceImageX: imagePoint.x,
           sourceImageY: imagePoint.y,
-          shape: lensShape,
+          shape: boxShape(lensShape),
           mode,
           blur: blurAmount,
+          blockSize,
+          fillColor,
           magnification,
+          ...lensEffect,
+          ...magnifierStyle,
+          rotation: 0,
+          z: nextZ({ lenses, stickers, texts, annotations }),
           createdAt: Date.now(),
         };
       }
 
-      if (lens) onLensAdd(lens);
+      if (lens) {
+        onLensAdd(lens);
+        onSelect({ kind: "lens", id: lens.id });
+      }
       setDragStart(null);
       setDragCurrent(null);
     };
 
-    useEffect(() => {
-      // eslint-disable-next-line react-hooks/set-state-in-effect
-      computeSize();
-    }, [computeSize]);
-
   useEffect(() => {
-    const observer = new ResizeObserver(computeSize);
+    const observer = new ResizeObserver(measureContainer);
     if (containerRef.current) {
       observer.observe(containerRef.current);
     }
     return () => observer.disconnect();
-  }, [computeSize]);
+  }, [measureContainer]);
+
+    useEffect(() => {
+      const onFontsLoaded = () => setFontRevision((prev) => prev + 1);
+      document.fonts.addEventListener("loadingdone", onFontsLoaded);
+      return () => document.fonts.removeEventListener("loadingdone", onFontsLoaded);
+    }, []);
 
     // Keep inline editor in sync with the selected text value.
     useEffect(() => {
@@ -737,6 +1640,7 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
     useEffect(() => {
       const onKey = (event: KeyboardEvent) => {
         if (event.key === "Escape") {
+          onSelect(null);
           setActiveTextId(null);
           setEditingText("");
           textDragOffsetRef.current = null;
@@ -744,37 +1648,141 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
       };
       window.addEventListener("keydown", onKey);
       return () => window.removeEventListener("keydown", onKey);
-    }, []);
+    }, [onSelect]);
 
+    // Enter closes a polygon that is being drawn; Escape abandons it.
     useEffect(() => {
-      const backgroundColor =
-        backgroundMode === "white"
-          ? "#ffffff"
-          : backgroundMode === "black"
-            ? "#000000"
-            : "#0a0a0a";
+      if (!pathDraft) return;
+      const onKey = (event: KeyboardEvent) => {
+        if (event.key === "Escape") {
+          lassoPressedRef.current = false;
+          setPathDraft(null);
+          setPathHover(null);
+        } else if (
+          event.key === "Enter" &&
+          pathDraft.polygon &&
+          isPathUsable(pathDraft.points)
+        ) {
+          event.preventDefault();
+          addPathLens(pathDraft.points);
+        }
+      };
+      window.addEventListener("keydown", onKey);
+      return () => window.removeEventListener("keydown", onKey);
+    });
 
+    // Space-drag pans; Ctrl/Cmd+0 fits, Ctrl/Cmd+1 shows actual pixels and
+    // Ctrl/Cmd +/- zoom around the stage centre.
+    useEffect(() => {
+      const isTyping = (event: KeyboardEvent) =>
+        Boolean(
+          (event.target as HTMLElement | null)?.closest(
+            "input, textarea, select, [contenteditable]",
+          ),
+        );
+      const onKeyDown = (event: KeyboardEvent) => {
+        if (isTyping(event)) return;
+        if (event.code === "Space") {
+          // Space still presses a focused button or checkbox.
+          const target = event.target as HTMLElement | null;
+          if (target?.closest("button, a, [role='button']")) return;
+          const onStage =
+            pointerOverRef.current || Boolean(target && containerRef.current?.contains(target));
+          if (!onStage) return;
+          event.preventDefault();
+          setSpaceHeld(true);
+          return;
+        }
+        if (!(event.ctrlKey || event.metaKey)) return;
+        const center = { x: size.width / 2, y: size.height / 2 };
+        if (event.key === "0") {
+          event.preventDefault();
+          setView(FIT_VIEW);
+        } else if (event.key === "1") {
+          event.preventDefault();
+          zoomToActualSize();
+        } else if (event.key === "=" || event.key === "+") {
+          event.preventDefault();
+          zoomAt(ZOOM_STEP, center);
+        } else if (event.key === "-") {
+          event.preventDefault();
+          zoomAt(1 / ZOOM_STEP, center);
+        }
+      };
+      const onKeyUp = (event: KeyboardEvent) => {
+        if (event.code === "Space") setSpaceHeld(false);
+      };
+      const onBlur = () => setSpaceHeld(false);
+      window.addEventListener("keydown", onKeyDown);
+      window.addEventListener("keyup", onKeyUp);
+      window.addEventListener("blur", onBlur);
+      return () => {
+        window.removeEventListener("keydown", onKeyDown);
+        window.removeEventListener("keyup", onKeyUp);
+        window.removeEventListener("blur", onBlur);
+      };
+    }, [size.height, size.width, zoomAt, zoomToActualSize]);
+
+    // Wheel zooms around the cursor. Trackpad pinches arrive as ctrl+wheel
+    // with small deltas. React's onWheel is passive, so listen directly.
+    useEffect(() => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const onWheel = (event: WheelEvent) => {
+        event.preventDefault();
+        const delta = event.deltaMode === 1 ? event.deltaY * 40 : event.deltaY;
+        const speed = event.ctrlKey ? 0.01 : 0.0015;
+        zoomAt(Math.exp(-delta * speed), toViewPoint(event.clientX, event.clientY));
+      };
+      canvas.addEventListener("wheel", onWheel, { passive: false });
+      return () => canvas.removeEventListener("wheel", onWheel);
+    }, [toViewPoint, zoomAt]);
+
+    useEffect(() => {
       renderScene({
         canvas: canvasRef.current,
         image: effectiveImage,
         lenses,
         stickers,
         texts,
+        annotations: draft ? [...annotations, draft] : annotations,
+        strokes: paintedStrokes,
         preview,
         width: size.width,
         height: size.height,
         backgroundColor,
         showPlaceholder: backgroundMode === "image",
+        selectionBox,
+        groupBoxes,
+        guides,
+        grid,
+        suggestions: suggestionPreviews,
+        view: {
+          offsetX: -view.panX / view.zoom,
+          offsetY: -view.panY / view.zoom,
+          scale: 1 / view.zoom,
+        },
       });
     }, [
+      annotations,
+      backgroundColor,
       backgroundMode,
+      draft,
       effectiveImage,
+      fontRevision,
+      grid,
+      groupBoxes,
+      guides,
       lenses,
+      paintedStrokes,
       preview,
+      selectionBox,
       size.height,
       size.width,
       stickers,
+      suggestionPreviews,
       texts,
+      view,
     ]);
 
   // Live-update the selected text overlay when its controls change.
@@ -785,13 +1793,38 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
       color: textColor,
       size: textSize,
       font: textFont,
+      ...textStyle,
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeTextId, textColor, textFont, textSize, textValue]);
+  }, [activeTextId, textColor, textFont, textSize, textStyle, textValue]);
 
     return (
       <div
         ref={containerRef}
+        onPointerEnter={() => {
+          pointerOverRef.current = true;
+        }}
+        onPointerLeave={() => {
+          pointerOverRef.current = false;
+        }}
+        onDragOver={(event) => {
+          if (Array.from(event.dataTransfer.types).includes("Files")) {
+            event.preventDefault();
+            event.dataTransfer.dropEffect = "copy";
+          }
+        }}
+        onDrop={(event) => {
+          const file = Array.from(event.dataTransfer.files).find((f) =>
+            f.type.startsWith("image/"),
+          );
+          if (!file) return;
+          event.preventDefault();
+          const { x, y } = toCanvasPoint(event);
+          onImageDrop(file, {
+            x: clamp(x, 0, size.width),
+            y: clamp(y, 0, size.height),
+          });
+        }}
         className="relative flex h-full w-full flex-col overflow-hidden rounded-[22px] bg-[#0b0b0b] p-4 shadow-[0_30px_90px_rgba(0,0,0,0.45)] ring-1 ring-white/5"
       >
         <div className="relative flex h-full w-full items-center justify-center rounded-2xl bg-[#0b0b0b] p-4 ring-1 ring-white/5">
@@ -808,10 +1841,43 @@ const CanvasStage = forwardRef<StageHandle, CanvasStageProps>(
             onPointerUp={handlePointerUp}
             onPointerLeave={handlePointerUp}
             onContextMenu={(e) => e.preventDefault()}
-            className="cursor-crosshair rounded-xl bg-[#0a0d15] shadow-[0_20px_60px_rgba(0,0,0,0.5)]"
+            className={`${
+              spaceHeld ? "cursor-grab active:cursor-grabbing" : "cursor-crosshair"
+            } touch-none rounded-xl bg-[#0a0d15] shadow-[0_20px_60px_rgba(0,0,0,0.5)]`}
           />
         </div>
-        {activeTextId && (
+        <div className="pointer-events-auto absolute right-4 top-4 z-10 flex items-center gap-1 rounded-lg border border-white/10 bg-black/70 p-1 text-xs text-white shadow-[0_12px_40px_rgba(0,0,0,0.45)] backdrop-blur">
+          <button
+            onClick={() => zoomAt(1 / ZOOM_STEP, { x: size.width / 2, y: size.height / 2 })}
+            className="rounded px-2 py-1 hover:bg-white/10"
+            title="Zoom out (Ctrl/Cmd -)"
+          >
+            −
+          </button>
+          <span className="w-12 text-center tabular-nums">{zoomPercent}%</span>
+          <button
+            onClick={() => zoomAt(ZOOM_STEP, { x: size.width / 2, y: size.height / 2 })}
+            className="rounded px-2 py-1 hover:bg-white/10"
+            title="Zoom in (Ctrl/Cmd +)"
+          >
+            +
+          </button>
+          <button
+            onClick={() => setView(FIT_VIEW)}
+            className="rounded px-2 py-1 hover:bg-white/10"
+            title="Fit (Ctrl/Cmd 0)"
+          >
+            Fit
+          </button>
+          <button
+            onClick={zoomToActualSize}
+            className="rounded px-2 py-1 hover:bg-white/10"
+            title="Actual pixels (Ctrl/Cmd 1)"
+          >
+            100%
+          </button>
+        </div>
+        {activeTextId && texts.some((t) => t.id === activeTextId) && (
           <div className="pointer-events-auto absolute bottom-4 left-4 z-10 w-[min(420px,calc(100%-2rem))] rounded-lg border border-white/10 bg-black/70 p-3 text-sm text-white shadow-[0_12px_40px_rgba(0,0,0,0.45)] backdrop-blur">
             <div className="mb-2 text-[11px] uppercase tracking-[0.14rem] text-neutral-400">
               Edit selected text
@@ -842,19 +1908,48 @@ CanvasStage.displayName = "CanvasStage";
 const clamp = (value: number, min: number, max: number) =>
   Math.min(Math.max(value, min), max);
 
-function getTextBounds(text: TextOverlay) {
+// topmost returns the item with the highest z, preferring later entries on ties.
+function topmost<T extends { z: number }>(items: T[]) {
+  return items.reduce<T | undefined>(
+    (best, item) => (!best || item.z >= best.z ? item : best),
+    undefined,
+  );
+}
+
+// getTextBounds is the drawn extent of a text overlay: its block grown by the
+// outline and background box.
+function getTextBounds(text: TextOverlay, fontRevision: number) {
   const { width, height, lineHeight, lines } = estimateTextBounds(
     text.text,
     text.size,
     text.font,
+    text,
+    fontRevision,
   );
-  return { width, height, lineHeight, lines };
+  const inset = textInset(text);
+  return {
+    x: text.x - inset,
+    y: text.y - inset,
+    width: width + inset * 2,
+    height: height + inset * 2,
+    lineHeight,
+    lines,
+  };
 }
 
 function isWithinLens(
-  lens: { x: number; y: number; width: number; height: number; shape: string },
-  point: { x: number; y: number },
+  lens: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    shape: string;
+    rotation: number;
+  },
+  hit: { x: number; y: number },
+  outline?: { x: number; y: number }[],
 ) {
+  const point = toLocalPoint(lens, lens.rotation, hit);
   const withinRect =
     point.x >= lens.x &&
     point.x <= lens.x + lens.width &&
@@ -862,7 +1957,8 @@ function isWithinLens(
     point.y <= lens.y + lens.height;
 
   if (!withinRect) return false;
-  if (lens.shape === "rounded") return true;
+  if (lens.shape === "path") return outline ? pointInPolygon(outline, point) : true;
+  if (lens.shape === "rounded" || lens.shape === "rectangle") return true;
 
   // circle/ellipse hit test
   const rx = lens.width / 2;
@@ -875,13 +1971,18 @@ function isWithinLens(
   return norm <= 1;
 }
 
-function isWithinText(text: TextOverlay, point: { x: number; y: number }) {
-  const bounds = getTextBounds(text);
+function isWithinText(
+  text: TextOverlay,
+  hit: { x: number; y: number },
+  fontRevision: number,
+) {
+  const bounds = getTextBounds(text, fontRevision);
+  const point = toLocalPoint(bounds, text.rotation, hit);
   return (
-    point.x >= text.x &&
-    point.x <= text.x + bounds.width &&
-    point.y >= text.y &&
-    point.y <= text.y + bounds.height
+    point.x >= bounds.x &&
+    point.x <= bounds.x + bounds.width &&
+    point.y >= bounds.y &&
+    point.y <= bounds.y + bounds.height
   );
 }
 
@@ -1,7 +1,31 @@
 "use client";
 
-import { ChangeEvent, useId } from "react";
-import { LensShape, Mode } from "@/lib/types";
+import { ChangeEvent, useEffect, useId, useState } from "react";
+import { Detection, detectionLabels } from "@/lib/detect";
+import { DEFAULT_FONT, loadBundledFonts, loadUploadedFont } from "@/lib/fonts";
+import { HistoryEntry } from "@/lib/history";
+import { PROJECT_EXTENSION } from "@/lib/project";
+import { isAnnotationMode } from "@/lib/annotations";
+import { PATH_MODES, boxShape } from "@/lib/paths";
+import { magnifierConnectors, MAX_MAGNIFICATION } from "@/lib/lens";
+import { Alignment, alignments } from "@/lib/align";
+import { solidFillColor } from "@/lib/canvas";
+import { stickerCategories, stickerPresets, stickerShapes } from "@/lib/stickers";
+import { textAligns } from "@/lib/text";
+import {
+  AnnotationStyle,
+  BrushSettings,
+  LensEffect,
+  LensShape,
+  MagnifierConnector,
+  MagnifierStyle,
+  Mode,
+  SnapSettings,
+  StickerShape,
+  StickerStyle,
+  TextAlign,
+  TextStyle,
+} from "@/lib/types";
 
 // Sidebar controls for mode selection, file loading, and lens/sticker settings.
 type ControlPanelProps = {
@@ -9,29 +33,97 @@ type ControlPanelProps = {
   lensShape: LensShape;
   lensSize: number;
   blurAmount: number;
+  blockSize: number;
+  fillColor: string;
   magnification: number;
+  // Feather/opacity of the selected redaction lens or of new lenses; null
+  // hides the controls.
+  lensEffect: LensEffect | null;
+  onLensEffectChange: (patch: Partial<LensEffect>) => void;
+  // Style of the selected magnifier or of new magnifiers; null hides it.
+  magnifierStyle: MagnifierStyle | null;
+  onMagnifierStyleChange: (patch: Partial<MagnifierStyle>) => void;
   canSave: boolean;
   textValue: string;
   textColor: string;
   textSize: number;
   textFont: string;
+  textStyle: TextStyle;
   backgroundMode: "black" | "white" | "image";
   onModeChange: (mode: Mode) => void;
   onLensShapeChange: (shape: LensShape) => void;
   onLensSizeChange: (size: number) => void;
   onBlurAmountChange: (amount: number) => void;
+  onBlockSizeChange: (size: number) => void;
+  onFillColorChange: (value: string) => void;
   onMagnificationChange: (amount: number) => void;
   onTextChange: (value: string) => void;
   onTextColorChange: (value: string) => void;
   onTextSizeChange: (value: number) => void;
+  onTextFontChange: (value: string) => void;
+  onTextStyleChange: (patch: Partial<TextStyle>) => void;
+  brush: BrushSettings;
+  onBrushChange: (patch: Partial<BrushSettings>) => void;
   onBackgroundModeChange: (value: "black" | "white" | "image") => void;
   onReset: () => void;
   onSave: () => void;
+  onCopy: () => void;
+  onProjectSave: () => void;
+  onProjectPicked: (file: File) => void;
   onFilePicked: (file: File) => void;
   onStickerPicked: (file: File) => void;
+  // Style of the selected sticker or of new stickers; null hides it.
+  stickerStyle: StickerStyle | null;
+  onStickerStyleChange: (patch: Partial<StickerStyle>) => void;
+  // Image placed by sticker mode, and uploads offered again in the library.
+  stickerSrc: string | null;
+  recentStickers: string[];
+  onStickerChoose: (src: string) => void;
+  onStickerForget: (src: string) => void;
+  historyEntries: HistoryEntry[];
+  historyIndex: number;
+  onHistoryJump: (index: number) => void;
+  hasSelection: boolean;
+  // Numeric editor for the selected overlay, shown under the edit actions.
+  inspector?: React.ReactNode;
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onBringForward: () => void;
+  onSendBackward: () => void;
+  // Overlays in the Shift+click multi-selection (0 for a single selection).
+  groupSize: number;
+  onAlign: (alignment: Alignment) => void;
+  onDistribute: (axis: "x" | "y") => void;
+  snap: SnapSettings;
+  onSnapChange: (patch: Partial<SnapSettings>) => void;
+  canDetect: boolean;
+  detectStatus: string | null;
+  detectNote: string | null;
+  suggestions: Detection[];
+  onDetect: () => void;
+  onSuggestionsAccept: (ids: string[]) => void;
+  onSuggestionsReject: (ids: string[]) => void;
+  // Stroke style of the selected annotation or of the current annotation
+  // mode; null hides the controls.
+  annotationStyle: AnnotationStyle | null;
+  annotationLabel: string;
+  onAnnotationStyleChange: (patch: Partial<AnnotationStyle>) => void;
 };
 
-const modes: Mode[] = ["blur", "magnify", "sticker", "text"];
+const modes: Mode[] = [
+  "blur",
+  "pixelate",
+  "fill",
+  "noise",
+  "brush",
+  "magnify",
+  "sticker",
+  "text",
+  "arrow",
+  "rectangle",
+  "highlight",
+  "step",
+];
 const shapes: LensShape[] = ["circle", "rounded"];
 
 export function ControlPanel({
@@ -39,30 +131,106 @@ export function ControlPanel({
   lensShape,
   lensSize,
   blurAmount,
+  blockSize,
+  fillColor,
   magnification,
+  lensEffect,
+  onLensEffectChange,
+  magnifierStyle,
+  onMagnifierStyleChange,
   canSave,
   textValue,
   textColor,
   textSize,
   textFont,
+  textStyle,
   backgroundMode,
   onModeChange,
   onLensShapeChange,
   onLensSizeChange,
   onBlurAmountChange,
+  onBlockSizeChange,
+  onFillColorChange,
   onMagnificationChange,
   onTextChange,
   onTextColorChange,
   onTextSizeChange,
+  onTextFontChange,
+  onTextStyleChange,
+  brush,
+  onBrushChange,
   onBackgroundModeChange,
   onReset,
   onSave,
+  onCopy,
+  onProjectSave,
+  onProjectPicked,
   onFilePicked,
   onStickerPicked,
+  stickerStyle,
+  onStickerStyleChange,
+  stickerSrc,
+  recentStickers,
+  onStickerChoose,
+  onStickerForget,
+  historyEntries,
+  historyIndex,
+  onHistoryJump,
+  hasSelection,
+  inspector,
+  onDelete,
+  onDuplicate,
+  onBringForward,
+  onSendBackward,
+  groupSize,
+  onAlign,
+  onDistribute,
+  snap,
+  onSnapChange,
+  canDetect,
+  detectStatus,
+  detectNote,
+  suggestions,
+  onDetect,
+  onSuggestionsAccept,
+  onSuggestionsReject,
+  annotationStyle,
+  annotationLabel,
+  onAnnotationStyleChange,
 }: ControlPanelProps) {
-  // Fixed to Terminus only; no font search.
   const inputId = useId();
   const stickerInputId = useId();
+  const projectInputId = useId();
+  const fontInputId = useId();
+  // Font families registered with document.fonts: bundled plus uploaded.
+  const [fonts, setFonts] = useState<string[]>([DEFAULT_FONT]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadBundledFonts()
+      .then((families) => {
+        if (cancelled) return;
+        setFonts((prev) => Array.from(new Set([...prev, ...families])));
+      })
+      .catch((error) => console.error("Failed to load fonts:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleFontFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    event.target.value = "";
+    try {
+      const family = await loadUploadedFont(file);
+      setFonts((prev) => (prev.includes(family) ? prev : [...prev, family]));
+      onTextFontChange(family);
+    } catch (error) {
+      console.error("Failed to load font:", error);
+      window.alert("That file could not be loaded as a font.");
+    }
+  };
 
   const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -72,6 +240,14 @@ export function ControlPanel({
     }
   };
 
+  const handleProjectFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onProjectPicked(file);
+      event.target.value = "";
+    }
+  };
+
   const handleStickerFile = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -116,10 +292,88 @@ export function ControlPanel({
           className="control-button control-compact disabled:opacity-50"
           disabled={!canSave}
         >
-          Save As
+          Export…
+        </button>
+        <button
+          onClick={onCopy}
+          className="control-button control-compact disabled:opacity-50"
+          disabled={!canSave}
+        >
+          Copy
+        </button>
+        <button
+          onClick={() => document.getElementById(projectInputId)?.click()}
+          className="control-button control-compact"
+        >
+          Open Project
+        </button>
+        <input
+          id={projectInputId}
+          type="file"
+          accept={`${PROJECT_EXTENSION},application/json`}
+          className="hidden"
+          onChange={handleProjectFile}
+        />
+        <button
+          onClick={onProjectSave}
+          className="control-button control-compact"
+        >
+          Save Project
         </button>
       </div>
 
+      {hasSelection && (
+        <Section title="Selection">
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={onDuplicate} className="control-button control-compact">
+              Duplicate
+            </button>
+            <button onClick={onDelete} className="control-button control-compact">
+              Delete
+            </button>
+            <button onClick={onBringForward} className="control-button control-compact">
+              Forward
+            </button>
+            <button onClick={onSendBackward} className="control-button control-compact">
+              Backward
+            </button>
+          </div>
+          {groupSize > 1 && (
+            <>
+              <p className="text-xs text-neutral-400">{groupSize} overlays selected</p>
+              <div className="grid grid-cols-3 gap-2">
+                {alignments.map((alignment) => (
+                  <button
+                    key={alignment}
+                    onClick={() => onAlign(alignment)}
+                    className="rounded-lg border border-white/10 bg-[#0f0f0f] px-2 py-1.5 text-xs capitalize text-neutral-200 hover:border-white/40"
+                  >
+                    {alignment}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  onClick={() => onDistribute("x")}
+                  disabled={groupSize < 3}
+                  className="control-button control-compact disabled:opacity-50"
+                >
+                  Space Across
+                </button>
+                <button
+                  onClick={() => onDistribute("y")}
+                  disabled={groupSize < 3}
+                  className="control-button control-compact disabled:opacity-50"
+                >
+                  Space Down
+                </button>
+              </div>
+            </>
+          )}
+          {inspector}
+        </Section>
+      )}
+
       {mode === "sticker" && (
         <div className="flex flex-col gap-2">
           <label className="text-[11px] uppercase tracking-[0.18rem] text-neutral-500">
@@ -140,29 +394,199 @@ export function ControlPanel({
               onChange={handleStickerFile}
             />
           </div>
+          {recentStickers.length > 0 && (
+            <StickerGrid title="Recent">
+              {recentStickers.map((src, index) => (
+                <div key={src} className="relative">
+                  <StickerThumb
+                    src={src}
+                    title={`Recent sticker ${index + 1}`}
+                    active={src === stickerSrc}
+                    onClick={() => onStickerChoose(src)}
+                  />
+                  <button
+                    onClick={() => onStickerForget(src)}
+                    title="Remove from recent"
+                    className="absolute -right-1 -top-1 h-4 w-4 rounded-full bg-neutral-700 text-[10px] leading-4 text-white hover:bg-neutral-500"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </StickerGrid>
+          )}
+          {stickerCategories.map((category) => (
+            <StickerGrid key={category} title={category}>
+              {stickerPresets
+                .filter((preset) => preset.category === category)
+                .map((preset) => (
+                  <StickerThumb
+                    key={preset.name}
+                    src={preset.src}
+                    title={preset.name}
+                    active={preset.src === stickerSrc}
+                    onClick={() => onStickerChoose(preset.src)}
+                  />
+                ))}
+            </StickerGrid>
+          ))}
         </div>
       )}
 
-      <Section title={mode === "sticker" ? "Sticker Shape" : "Shape"}>
-        <Select
-          value={lensShape}
-          onChange={(value) => onLensShapeChange(value as LensShape)}
-          options={shapes}
-        />
-      </Section>
+      {!isAnnotationMode(mode) && mode !== "brush" && (
+        <>
+          {mode !== "sticker" && (
+            <Section title="Shape">
+              <Select
+                value={PATH_MODES.includes(mode) ? lensShape : boxShape(lensShape)}
+                onChange={(value) => onLensShapeChange(value as LensShape)}
+                options={PATH_MODES.includes(mode) ? [...shapes, "path"] : shapes}
+              />
+            </Section>
+          )}
 
-      <Section title={mode === "sticker" ? "Sticker Size" : "Lens Size"}>
-        <Slider
-          value={lensSize}
-          onChange={onLensSizeChange}
-          min={80}
-          max={420}
-          step={10}
-          label={`${Math.round(lensSize)} px`}
-        />
-      </Section>
+          <Section title={mode === "sticker" ? "Sticker Size" : "Lens Size"}>
+            <Slider
+              value={lensSize}
+              onChange={onLensSizeChange}
+              min={80}
+              max={420}
+              step={10}
+              label={`${Math.round(lensSize)} px`}
+            />
+          </Section>
+        </>
+      )}
 
-      {mode === "blur" && (
+      {stickerStyle && (
+        <>
+          <Section title="Sticker Shape">
+            <Select
+              value={stickerStyle.shape}
+              onChange={(value) => onStickerStyleChange({ shape: value as StickerShape })}
+              options={stickerShapes}
+            />
+          </Section>
+          <Section title="Sticker Opacity">
+            <Slider
+              value={stickerStyle.opacity}
+              onChange={(value) => onStickerStyleChange({ opacity: value })}
+              min={0.1}
+              max={1}
+              step={0.05}
+              label={`${Math.round(stickerStyle.opacity * 100)}%`}
+            />
+          </Section>
+          <Section title="Sticker Outline">
+            <div className="flex items-center gap-3">
+              <input
+                type="color"
+                value={stickerStyle.outlineColor}
+                onChange={(e) => onStickerStyleChange({ outlineColor: e.target.value })}
+                className="h-10 w-14 cursor-pointer rounded border border-white/15 bg-transparent p-1"
+              />
+              <div className="flex-1">
+                <Slider
+                  value={stickerStyle.outlineWidth}
+                  onChange={(value) => onStickerStyleChange({ outlineWidth: value })}
+                  min={0}
+                  max={16}
+                  step={1}
+                  label={
+                    stickerStyle.outlineWidth
+                      ? `${Math.round(stickerStyle.outlineWidth)}px`
+                      : "Off"
+                  }
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-neutral-300">
+              <input
+                type="checkbox"
+                checked={stickerStyle.shadow}
+                onChange={(e) => onStickerStyleChange({ shadow: e.target.checked })}
+              />
+              Drop shadow
+            </label>
+          </Section>
+        </>
+      )}
+
+      {annotationStyle && (
+        <>
+          <Section title={`${annotationLabel} Color`}>
+            <div className="flex items-center gap-3">
+              <input
+                type="color"
+                value={annotationStyle.color}
+                onChange={(e) => onAnnotationStyleChange({ color: e.target.value })}
+                className="h-10 w-14 cursor-pointer rounded border border-white/15 bg-transparent p-1"
+              />
+              <input
+                type="text"
+                value={annotationStyle.color}
+                onChange={(e) => onAnnotationStyleChange({ color: e.target.value })}
+                className="flex-1 rounded-lg border border-white/10 bg-[#0f0f0f] px-3 py-2 text-sm text-white outline-none focus:border-white/40"
+              />
+            </div>
+          </Section>
+          <Section title="Stroke Width">
+            <Slider
+              value={annotationStyle.strokeWidth}
+              onChange={(value) => onAnnotationStyleChange({ strokeWidth: value })}
+              min={1}
+              max={48}
+              step={1}
+              label={`${Math.round(annotationStyle.strokeWidth)}px`}
+            />
+          </Section>
+          <Section title="Opacity">
+            <Slider
+              value={annotationStyle.opacity}
+              onChange={(value) => onAnnotationStyleChange({ opacity: value })}
+              min={0.05}
+              max={1}
+              step={0.05}
+              label={`${Math.round(annotationStyle.opacity * 100)}%`}
+            />
+          </Section>
+        </>
+      )}
+
+      {mode === "brush" && (
+        <>
+          <Section title="Brush Size">
+            <Slider
+              value={brush.size}
+              onChange={(value) => onBrushChange({ size: value })}
+              min={4}
+              max={200}
+              step={2}
+              label={`${Math.round(brush.size)} px`}
+            />
+          </Section>
+          <Section title="Hardness">
+            <Slider
+              value={brush.hardness}
+              onChange={(value) => onBrushChange({ hardness: value })}
+              min={0}
+              max={1}
+              step={0.05}
+              label={`${Math.round(brush.hardness * 100)}%`}
+            />
+            <label className="flex items-center gap-2 text-xs text-neutral-300">
+              <input
+                type="checkbox"
+                checked={brush.erase}
+                onChange={(e) => onBrushChange({ erase: e.target.checked })}
+              />
+              Eraser
+            </label>
+          </Section>
+        </>
+      )}
+
+      {(mode === "blur" || mode === "noise" || mode === "brush") && (
         <Section title="Blur Strength">
           <Slider
             value={blurAmount}
@@ -175,19 +599,135 @@ export function ControlPanel({
         </Section>
       )}
 
+      {mode === "pixelate" && (
+        <Section title="Block Size">
+          <Slider
+            value={blockSize}
+            onChange={onBlockSizeChange}
+            min={4}
+            max={48}
+            step={1}
+            label={`${blockSize}px`}
+          />
+        </Section>
+      )}
+
+      {mode === "fill" && (
+        <Section title="Fill Color">
+          <div className="flex items-center gap-3">
+            <input
+              type="color"
+              value={fillColor}
+              onChange={(e) => onFillColorChange(e.target.value)}
+              className="h-10 w-14 cursor-pointer rounded border border-white/15 bg-transparent p-1"
+            />
+            <HexInput value={fillColor} onChange={onFillColorChange} />
+          </div>
+        </Section>
+      )}
+
+      {lensEffect && (
+        <>
+          <Section title="Feather">
+            <Slider
+              value={lensEffect.feather}
+              onChange={(value) => onLensEffectChange({ feather: value })}
+              min={0}
+              max={40}
+              step={1}
+              label={lensEffect.feather ? `${Math.round(lensEffect.feather)}px` : "Off"}
+            />
+          </Section>
+          <Section title="Effect Opacity">
+            <Slider
+              value={lensEffect.opacity}
+              onChange={(value) => onLensEffectChange({ opacity: value })}
+              min={0.1}
+              max={1}
+              step={0.05}
+              label={`${Math.round(lensEffect.opacity * 100)}%`}
+            />
+          </Section>
+        </>
+      )}
+
       {mode === "magnify" && (
         <Section title="Magnification">
           <Slider
             value={magnification}
             onChange={onMagnificationChange}
             min={1}
-            max={4}
+            max={MAX_MAGNIFICATION}
             step={0.1}
             label={`${magnification.toFixed(1)}x`}
           />
         </Section>
       )}
 
+      {magnifierStyle && (
+        <>
+          <Section title="Connector">
+            <Select
+              value={magnifierStyle.connector}
+              onChange={(value) =>
+                onMagnifierStyleChange({ connector: value as MagnifierConnector })
+              }
+              options={magnifierConnectors}
+            />
+          </Section>
+          <Section title="Border">
+            <div className="flex items-center gap-3">
+              <input
+                type="color"
+                value={magnifierStyle.borderColor}
+                onChange={(e) => onMagnifierStyleChange({ borderColor: e.target.value })}
+                className="h-10 w-14 cursor-pointer rounded border border-white/15 bg-transparent p-1"
+              />
+              <div className="flex-1">
+                <Slider
+                  value={magnifierStyle.borderWidth}
+                  onChange={(value) => onMagnifierStyleChange({ borderWidth: value })}
+                  min={0}
+                  max={12}
+                  step={1}
+                  label={
+                    magnifierStyle.borderWidth
+                      ? `${Math.round(magnifierStyle.borderWidth)}px`
+                      : "Off"
+                  }
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-4 text-xs text-neutral-300">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={magnifierStyle.shadow}
+                  onChange={(e) => onMagnifierStyleChange({ shadow: e.target.checked })}
+                />
+                Shadow
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={magnifierStyle.sheen}
+                  onChange={(e) => onMagnifierStyleChange({ sheen: e.target.checked })}
+                />
+                Glass
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={magnifierStyle.pixelated}
+                  onChange={(e) => onMagnifierStyleChange({ pixelated: e.target.checked })}
+                />
+                Sharp pixels
+              </label>
+            </div>
+          </Section>
+        </>
+      )}
+
       {mode === "text" && (
         <>
           <Section title="Text">
@@ -217,9 +757,24 @@ export function ControlPanel({
             <RgbPicker value={textColor} onChange={onTextColorChange} />
           </Section>
           <Section title="Text Font">
-            <div className="rounded-lg border border-white/10 bg-[#0f0f0f] px-3 py-2 text-sm text-white">
-              {textFont} (fixed)
-            </div>
+            <Select
+              value={textFont}
+              onChange={onTextFontChange}
+              options={fonts.includes(textFont) ? fonts : [...fonts, textFont]}
+            />
+            <button
+              onClick={() => document.getElementById(fontInputId)?.click()}
+              className="control-button control-compact"
+            >
+              Upload Font
+            </button>
+            <input
+              id={fontInputId}
+              type="file"
+              accept=".ttf,.otf,.woff,.woff2"
+              className="hidden"
+              onChange={handleFontFile}
+            />
           </Section>
           <Section title="Text Size">
             <Slider
@@ -231,9 +786,133 @@ export function ControlPanel({
               label={`${textSize}px`}
             />
           </Section>
+          <Section title="Text Style">
+            <div className="flex items-center gap-4 text-xs text-neutral-300">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={textStyle.bold}
+                  onChange={(e) => onTextStyleChange({ bold: e.target.checked })}
+                />
+                Bold
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={textStyle.italic}
+                  onChange={(e) => onTextStyleChange({ italic: e.target.checked })}
+                />
+                Italic
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={textStyle.shadow}
+                  onChange={(e) => onTextStyleChange({ shadow: e.target.checked })}
+                />
+                Shadow
+              </label>
+            </div>
+            <Select
+              value={textStyle.align}
+              onChange={(value) => onTextStyleChange({ align: value as TextAlign })}
+              options={textAligns}
+            />
+          </Section>
+          <Section title="Outline">
+            <div className="flex items-center gap-3">
+              <input
+                type="color"
+                value={textStyle.strokeColor}
+                onChange={(e) => onTextStyleChange({ strokeColor: e.target.value })}
+                className="h-10 w-14 cursor-pointer rounded border border-white/15 bg-transparent p-1"
+              />
+              <input
+                type="text"
+                value={textStyle.strokeColor}
+                onChange={(e) => onTextStyleChange({ strokeColor: e.target.value })}
+                className="flex-1 rounded-lg border border-white/10 bg-[#0f0f0f] px-3 py-2 text-sm text-white outline-none focus:border-white/40"
+              />
+            </div>
+            <Slider
+              value={textStyle.strokeWidth}
+              onChange={(value) => onTextStyleChange({ strokeWidth: value })}
+              min={0}
+              max={12}
+              step={1}
+              label={textStyle.strokeWidth ? `${textStyle.strokeWidth}px` : "Off"}
+            />
+          </Section>
+          <Section title="Background Box">
+            <label className="flex items-center gap-2 text-xs text-neutral-300">
+              <input
+                type="checkbox"
+                checked={textStyle.background}
+                onChange={(e) => onTextStyleChange({ background: e.target.checked })}
+              />
+              Draw a box behind the text
+            </label>
+            {textStyle.background && (
+              <>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="color"
+                    value={textStyle.backgroundColor}
+                    onChange={(e) => onTextStyleChange({ backgroundColor: e.target.value })}
+                    className="h-10 w-14 cursor-pointer rounded border border-white/15 bg-transparent p-1"
+                  />
+                  <input
+                    type="text"
+                    value={textStyle.backgroundColor}
+                    onChange={(e) => onTextStyleChange({ backgroundColor: e.target.value })}
+                    className="flex-1 rounded-lg border border-white/10 bg-[#0f0f0f] px-3 py-2 text-sm text-white outline-none focus:border-white/40"
+                  />
+                </div>
+                <Slider
+                  value={textStyle.backgroundOpacity}
+                  onChange={(value) => onTextStyleChange({ backgroundOpacity: value })}
+                  min={0.05}
+                  max={1}
+                  step={0.05}
+                  label={`${Math.round(textStyle.backgroundOpacity * 100)}%`}
+                />
+              </>
+            )}
+          </Section>
         </>
       )}
 
+      <Section title="Guides">
+        <div className="flex items-center gap-4 text-xs text-neutral-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={snap.enabled}
+              onChange={(e) => onSnapChange({ enabled: e.target.checked })}
+            />
+            Snap
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={snap.grid}
+              onChange={(e) => onSnapChange({ grid: e.target.checked })}
+            />
+            Pixel grid
+          </label>
+        </div>
+        {snap.grid && (
+          <Slider
+            value={snap.gridSize}
+            onChange={(value) => onSnapChange({ gridSize: value })}
+            min={2}
+            max={100}
+            step={1}
+            label={`${snap.gridSize}px`}
+          />
+        )}
+      </Section>
+
       <Section title="Background">
         <Select
           value={backgroundMode}
@@ -244,6 +923,88 @@ export function ControlPanel({
         />
       </Section>
 
+      <Section title="Detect Sensitive Info">
+        <button
+          onClick={onDetect}
+          className="control-button control-compact disabled:opacity-50"
+          disabled={!canDetect || Boolean(detectStatus)}
+        >
+          {detectStatus ? "Scanning…" : "Find Emails, Keys & Faces"}
+        </button>
+        {detectStatus && (
+          <p className="text-[12px] text-neutral-400">{detectStatus}</p>
+        )}
+        {detectNote && !detectStatus && (
+          <p className="text-[12px] text-amber-300/80">{detectNote}</p>
+        )}
+        {suggestions.length > 0 && (
+          <>
+            <ul className="max-h-48 overflow-y-auto rounded-lg border border-white/10 bg-[#0f0f0f] py-1 text-sm">
+              {suggestions.map((suggestion) => (
+                <li
+                  key={suggestion.id}
+                  className="flex items-center gap-2 px-3 py-1 text-neutral-300"
+                >
+                  <span className="min-w-0 flex-1 truncate" title={suggestion.text}>
+                    {detectionLabels[suggestion.kind]}
+                    {suggestion.text && (
+                      <span className="text-neutral-500"> {suggestion.text}</span>
+                    )}
+                  </span>
+                  <button
+                    onClick={() => onSuggestionsAccept([suggestion.id])}
+                    className="text-white hover:underline"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => onSuggestionsReject([suggestion.id])}
+                    className="text-neutral-500 hover:underline"
+                  >
+                    Reject
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={() => onSuggestionsAccept(suggestions.map((s) => s.id))}
+                className="control-button control-compact"
+              >
+                Accept All
+              </button>
+              <button
+                onClick={() => onSuggestionsReject(suggestions.map((s) => s.id))}
+                className="control-button control-compact"
+              >
+                Reject All
+              </button>
+            </div>
+          </>
+        )}
+      </Section>
+
+      <Section title="History">
+        <ol className="max-h-48 overflow-y-auto rounded-lg border border-white/10 bg-[#0f0f0f] py-1 text-sm">
+          {historyEntries.map((entry, index) => (
+            <li key={entry.id}>
+              <button
+                onClick={() => onHistoryJump(index)}
+                className={`w-full px-3 py-1 text-left transition-colors hover:bg-white/10 ${
+                  index === historyIndex
+                    ? "bg-white/15 text-white"
+                    : index > historyIndex
+                      ? "text-neutral-600"
+                      : "text-neutral-300"
+                }`}
+              >
+                {entry.label}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </Section>
+
     </aside>
   );
 }
@@ -265,6 +1026,41 @@ function Section({
   );
 }
 
+function StickerGrid({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col gap-1">
+      <p className="text-[11px] capitalize text-neutral-400">{title}</p>
+      <div className="grid grid-cols-5 gap-2">{children}</div>
+    </div>
+  );
+}
+
+function StickerThumb({
+  src,
+  title,
+  active,
+  onClick,
+}: {
+  src: string;
+  title: string;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className={`flex aspect-square w-full items-center justify-center rounded-lg border bg-[#0f0f0f] p-1 ${
+        active ? "border-white/70" : "border-white/10 hover:border-white/40"
+      }`}
+    >
+      {/* Data URLs; next/image adds nothing here. */}
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={src} alt={title} className="max-h-full max-w-full object-contain" />
+    </button>
+  );
+}
+
 function Select({
   value,
   onChange,
@@ -329,6 +1125,37 @@ function Slider({
   );
 }
 
+// HexInput edits an opaque #rrggbb colour as text. Only complete, valid values
+// are passed on; anything else is kept as a draft and marked invalid, so a
+// half-typed or transparent colour can never reach a fill lens.
+function HexInput({ value, onChange }: { value: string; onChange: (val: string) => void }) {
+  const [draft, setDraft] = useState(value);
+  const [shown, setShown] = useState(value);
+  if (shown !== value) {
+    setShown(value);
+    setDraft(value);
+  }
+  const valid = solidFillColor(draft) === draft;
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      aria-invalid={!valid}
+      title={valid ? undefined : "Use an opaque #rrggbb colour"}
+      onChange={(e) => {
+        const next = e.target.value.trim();
+        setDraft(next);
+        if (solidFillColor(next) === next) onChange(next.toLowerCase());
+      }}
+      onBlur={() => setDraft(value)}
+      className={`flex-1 rounded-lg border bg-[#0f0f0f] px-3 py-2 text-sm text-white outline-none ${
+        valid ? "border-white/10 focus:border-white/40" : "border-red-500/70"
+      }`}
+    />
+  );
+}
+
 function RgbPicker({
   value,
   onChange,
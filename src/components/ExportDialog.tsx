@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import {
+  EXPORT_SCALES,
+  ExportFormat,
+  exportFilename,
+  exportFits,
+  exportFormats,
+  ExportOptions,
+  scaledExportSize,
+} from "@/lib/export";
+
+type ExportDialogProps = {
+  // Natural output size at 1x, used for the size readout.
+  baseWidth: number;
+  baseHeight: number;
+  busy: boolean;
+  onCancel: () => void;
+  onExport: (options: ExportOptions) => void;
+};
+
+export function ExportDialog({
+  baseWidth,
+  baseHeight,
+  busy,
+  onCancel,
+  onExport,
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("png");
+  const [quality, setQuality] = useState(0.92);
+  const [scale, setScale] = useState(1);
+  const [filename, setFilename] = useState("pixel-blur");
+  const [strip, setStrip] = useState(true);
+
+  const base = { width: baseWidth, height: baseHeight };
+  const { width: outputWidth, height: outputHeight } = scaledExportSize(base, scale);
+  const fitsAt = (option: number) => exportFits(scaledExportSize(base, option));
+  const fits = fitsAt(scale);
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          onExport({ format, quality, scale, filename, stripMetadata: strip });
+        }}
+        className="flex w-[min(380px,calc(100%-2rem))] flex-col gap-4 rounded-2xl border border-white/10 bg-[#0b0b0b] p-5 shadow-[0_30px_90px_rgba(0,0,0,0.6)]"
+      >
+        <h2 className="text-sm font-semibold text-neutral-200">Export Image</h2>
+
+        <Field title="Format">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className="select-compact"
+          >
+            {(Object.keys(exportFormats) as ExportFormat[]).map((option) => (
+              <option key={option} value={option} className="bg-[#111] text-white">
+                {exportFormats[option].label}
+              </option>
+            ))}
+          </select>
+        </Field>
+
+        {exportFormats[format].lossy && (
+          <Field title={`Quality ${Math.round(quality * 100)}%`}>
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.01}
+              value={quality}
+              onChange={(e) => setQuality(Number(e.target.value))}
+              className="range-input"
+            />
+          </Field>
+        )}
+
+        <Field title={`Scale · ${outputWidth} × ${outputHeight}px`}>
+          <div className="grid grid-cols-5 gap-2">
+            {EXPORT_SCALES.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setScale(option)}
+                disabled={!fitsAt(option)}
+                title={fitsAt(option) ? undefined : "Image too large at this scale"}
+                className={`control-button control-compact disabled:opacity-40 ${
+                  scale === option ? "border-white/40 text-white" : ""
+                }`}
+              >
+                {option}×
+              </button>
+            ))}
+          </div>
+          {!fits && (
+            <p className="text-[12px] text-amber-300/80">
+              The image is too large to export at {scale}×. Pick a smaller scale.
+            </p>
+          )}
+        </Field>
+
+        <Field title="Filename">
+          <div className="flex items-center gap-2">
+            <input
+              value={filename}
+              onChange={(e) => setFilename(e.target.value)}
+              className="w-full rounded-lg border border-white/10 bg-[#0f0f0f] px-3 py-2 text-sm text-white outline-none focus:border-white/30"
+            />
+            <span className="text-xs text-neutral-500">
+              .{exportFormats[format].extension}
+            </span>
+          </div>
+        </Field>
+
+        <label className="flex items-center gap-2 text-xs text-neutral-300">
+          <input
+            type="checkbox"
+            checked={strip}
+            onChange={(e) => setStrip(e.target.checked)}
+          />
+          Strip metadata (EXIF, GPS, XMP, text chunks)
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="control-button control-compact"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={busy || !fits}
+            className="control-button control-compact disabled:opacity-50"
+          >
+            {busy ? "Exporting…" : `Export ${exportFilename(filename, format)}`}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+function Field({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      <label className="text-[11px] uppercase tracking-[0.18rem] text-neutral-500">
+        {title}
+      </label>
+      {children}
+    </div>
+  );
+}
+
+export default ExportDialog;
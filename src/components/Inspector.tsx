@@ -0,0 +1,417 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_MAGNIFICATION } from "@/lib/lens";
+import { pathBounds, scalePath } from "@/lib/paths";
+import { stickerShapes } from "@/lib/stickers";
+import {
+  BoxShape,
+  Lens,
+  SceneTransform,
+  Sticker,
+  StickerCrop,
+  StickerShape,
+  TextOverlay,
+} from "@/lib/types";
+
+// The overlay shown in the inspector, with its kind attached.
+export type InspectedOverlay =
+  | { kind: "lens"; lens: Lens }
+  | { kind: "sticker"; sticker: Sticker }
+  | { kind: "text"; text: TextOverlay };
+
+type InspectorProps = {
+  overlay: InspectedOverlay;
+  // Display -> image mapping; geometry is shown and typed in image pixels.
+  transform: SceneTransform;
+  onLensUpdate: (id: string, lens: Partial<Lens>) => void;
+  onStickerUpdate: (id: string, sticker: Partial<Sticker>) => void;
+  onTextUpdate: (id: string, text: Partial<TextOverlay>) => void;
+};
+
+type Box = { x: number; y: number; width: number; height: number };
+
+const boxShapes: BoxShape[] = ["circle", "rounded"];
+
+// Inspector edits the selected lens, sticker or text numerically. Values are
+// converted to display space before they reach the update callbacks, so
+// edits become ordinary history steps.
+function Inspector({
+  overlay,
+  transform,
+  onLensUpdate,
+  onStickerUpdate,
+  onTextUpdate,
+}: InspectorProps) {
+  const toImageX = (value: number) => (value - transform.offsetX) / transform.scale;
+  const toImageY = (value: number) => (value - transform.offsetY) / transform.scale;
+  const toDisplayX = (value: number) => value * transform.scale + transform.offsetX;
+  const toDisplayY = (value: number) => value * transform.scale + transform.offsetY;
+
+  // boxFields edits x/y/width/height; `apply` receives the new display box.
+  const boxFields = (box: Box, apply: (next: Box) => void, sizeLocked = false) => {
+    const update = (patch: Partial<Box>) => apply({ ...box, ...patch });
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField
+          label="X"
+          compact
+          value={toImageX(box.x)}
+          onCommit={(value) => update({ x: toDisplayX(value) })}
+        />
+        <NumberField
+          label="Y"
+          compact
+          value={toImageY(box.y)}
+          onCommit={(value) => update({ y: toDisplayY(value) })}
+        />
+        <NumberField
+          label="W"
+          compact
+          value={box.width / transform.scale}
+          min={1}
+          onCommit={(value) => {
+            const width = value * transform.scale;
+            update(sizeLocked ? { width, height: width } : { width });
+          }}
+        />
+        <NumberField
+          label="H"
+          compact
+          value={box.height / transform.scale}
+          min={1}
+          onCommit={(value) => {
+            const height = value * transform.scale;
+            update(sizeLocked ? { width: height, height } : { height });
+          }}
+        />
+      </div>
+    );
+  };
+
+  const rotationField = (rotation: number, apply: (rotation: number) => void) => (
+    <NumberField
+      label="Rotation °"
+      value={rotation}
+      onCommit={(value) => apply(((value % 360) + 360) % 360)}
+    />
+  );
+
+  if (overlay.kind === "lens") {
+    const { lens } = overlay;
+    // Moving a lens carries its connector anchor along, like dragging it;
+    // a path outline is moved and stretched in image space.
+    const applyBox = (next: Box) => {
+      const payload: Partial<Lens> = {
+        ...next,
+        sourceX: lens.sourceX + next.x - lens.x,
+        sourceY: lens.sourceY + next.y - lens.y,
+      };
+      if (lens.imagePoints) {
+        payload.imagePoints = scalePath(lens.imagePoints, pathBounds(lens.imagePoints), {
+          x: toImageX(next.x),
+          y: toImageY(next.y),
+          width: next.width / transform.scale,
+          height: next.height / transform.scale,
+        });
+      }
+      onLensUpdate(lens.id, payload);
+    };
+    return (
+      <Group title={`${lens.mode} lens`}>
+        {boxFields(lens, applyBox, lens.shape === "circle")}
+        {lens.shape !== "path" && (
+          <Row label="Shape">
+            <select
+              value={lens.shape}
+              onChange={(e) => {
+                const shape = e.target.value as BoxShape;
+                const side = Math.min(lens.width, lens.height);
+                onLensUpdate(lens.id, {
+                  shape,
+                  // Circles stay round and unrotated, as on the canvas.
+                  ...(shape === "circle" && { width: side, height: side, rotation: 0 }),
+                });
+              }}
+              className="select-compact"
+            >
+              {boxShapes.map((shape) => (
+                <option key={shape} value={shape} className="bg-[#111] text-white">
+                  {shape.charAt(0).toUpperCase() + shape.slice(1)}
+                </option>
+              ))}
+            </select>
+          </Row>
+        )}
+        {lens.shape === "rounded" &&
+          rotationField(lens.rotation, (rotation) => onLensUpdate(lens.id, { rotation }))}
+        {(lens.mode === "blur" || lens.mode === "noise") && (
+          <NumberField
+            label="Blur px"
+            value={lens.blur / transform.scale}
+            min={1 / transform.scale}
+            max={60 / transform.scale}
+            onCommit={(value) => onLensUpdate(lens.id, { blur: value * transform.scale })}
+          />
+        )}
+        {lens.mode === "pixelate" && (
+          <NumberField
+            label="Block px"
+            value={lens.blockSize / transform.scale}
+            min={2 / transform.scale}
+            max={96 / transform.scale}
+            onCommit={(value) => onLensUpdate(lens.id, { blockSize: value * transform.scale })}
+          />
+        )}
+        {lens.mode === "fill" && (
+          <ColorField
+            value={lens.fillColor}
+            onChange={(fillColor) => onLensUpdate(lens.id, { fillColor })}
+          />
+        )}
+        {lens.mode === "magnify" && (
+          <NumberField
+            label="Zoom ×"
+            value={lens.magnification}
+            min={1}
+            max={MAX_MAGNIFICATION}
+            step={0.1}
+            onCommit={(magnification) => onLensUpdate(lens.id, { magnification })}
+          />
+        )}
+      </Group>
+    );
+  }
+
+  if (overlay.kind === "sticker") {
+    const { sticker } = overlay;
+    // The crop is edited in source image pixels and stored as fractions. The
+    // sticker keeps its width and takes the cropped area's proportions.
+    const sourceWidth = sticker.image.naturalWidth || 1;
+    const sourceHeight = sticker.image.naturalHeight || 1;
+    const crop = sticker.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+    const applyCrop = (patch: Partial<StickerCrop>) => {
+      const next = { ...crop, ...patch };
+      const x = Math.min(Math.max(next.x, 0), 0.99);
+      const y = Math.min(Math.max(next.y, 0), 0.99);
+      const width = Math.min(Math.max(next.width, 0.01), 1 - x);
+      const height = Math.min(Math.max(next.height, 0.01), 1 - y);
+      const full = x === 0 && y === 0 && width === 1 && height === 1;
+      onStickerUpdate(sticker.id, {
+        crop: full ? null : { x, y, width, height },
+        height: (sticker.width * height * sourceHeight) / (width * sourceWidth),
+      });
+    };
+    return (
+      <Group title="Sticker">
+        {boxFields(sticker, (next) => onStickerUpdate(sticker.id, next))}
+        <Row label="Shape">
+          <select
+            value={sticker.shape}
+            onChange={(e) =>
+              onStickerUpdate(sticker.id, { shape: e.target.value as StickerShape })
+            }
+            className="select-compact"
+          >
+            {stickerShapes.map((shape) => (
+              <option key={shape} value={shape} className="bg-[#111] text-white">
+                {shape.charAt(0).toUpperCase() + shape.slice(1)}
+              </option>
+            ))}
+          </select>
+        </Row>
+        {rotationField(sticker.rotation, (rotation) =>
+          onStickerUpdate(sticker.id, { rotation }),
+        )}
+        <div className="flex items-center gap-4 text-xs text-neutral-400">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={sticker.flipX}
+              onChange={(e) => onStickerUpdate(sticker.id, { flipX: e.target.checked })}
+            />
+            Flip H
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={sticker.flipY}
+              onChange={(e) => onStickerUpdate(sticker.id, { flipY: e.target.checked })}
+            />
+            Flip V
+          </label>
+        </div>
+        <p className="text-xs text-neutral-400">Crop (source px)</p>
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField
+            label="X"
+            compact
+            value={crop.x * sourceWidth}
+            onCommit={(value) => applyCrop({ x: value / sourceWidth })}
+          />
+          <NumberField
+            label="Y"
+            compact
+            value={crop.y * sourceHeight}
+            onCommit={(value) => applyCrop({ y: value / sourceHeight })}
+          />
+          <NumberField
+            label="W"
+            compact
+            value={crop.width * sourceWidth}
+            min={1}
+            onCommit={(value) => applyCrop({ width: value / sourceWidth })}
+          />
+          <NumberField
+            label="H"
+            compact
+            value={crop.height * sourceHeight}
+            min={1}
+            onCommit={(value) => applyCrop({ height: value / sourceHeight })}
+          />
+        </div>
+        {sticker.crop && (
+          <button
+            onClick={() => applyCrop({ x: 0, y: 0, width: 1, height: 1 })}
+            className="control-button control-compact"
+          >
+            Reset Crop
+          </button>
+        )}
+      </Group>
+    );
+  }
+
+  const { text } = overlay;
+  return (
+    <Group title="Text">
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField
+          label="X"
+          compact
+          value={toImageX(text.x)}
+          onCommit={(value) => onTextUpdate(text.id, { x: toDisplayX(value) })}
+        />
+        <NumberField
+          label="Y"
+          compact
+          value={toImageY(text.y)}
+          onCommit={(value) => onTextUpdate(text.id, { y: toDisplayY(value) })}
+        />
+      </div>
+      <NumberField
+        label="Size px"
+        value={text.size / transform.scale}
+        min={1}
+        onCommit={(value) => onTextUpdate(text.id, { size: value * transform.scale })}
+      />
+      <ColorField
+        value={text.color}
+        onChange={(color) => onTextUpdate(text.id, { color })}
+      />
+      {rotationField(text.rotation, (rotation) => onTextUpdate(text.id, { rotation }))}
+    </Group>
+  );
+}
+
+function Group({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border border-white/10 bg-[#0f0f0f] p-3">
+      <p className="text-xs capitalize text-neutral-300">{title}</p>
+      {children}
+    </div>
+  );
+}
+
+function Row({
+  label,
+  compact = false,
+  children,
+}: {
+  label: string;
+  compact?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className="flex items-center gap-2 text-xs text-neutral-400">
+      <span className={`${compact ? "w-3" : "w-16"} shrink-0`}>{label}</span>
+      {children}
+    </label>
+  );
+}
+
+// NumberField keeps what is being typed locally and commits on Enter or blur,
+// so partial input never reaches the overlay.
+function NumberField({
+  label,
+  value,
+  onCommit,
+  min,
+  max,
+  step = 1,
+  compact,
+}: {
+  label: string;
+  compact?: boolean;
+  value: number;
+  onCommit: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+}) {
+  const shown = String(round(value, step));
+  const [draft, setDraft] = useState<string | null>(null);
+  // A new value from outside (a drag, undo) replaces stale input.
+  const [lastValue, setLastValue] = useState(value);
+  if (lastValue !== value) {
+    setLastValue(value);
+    setDraft(null);
+  }
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = Number(draft);
+    setDraft(null);
+    if (draft.trim() === "" || !Number.isFinite(parsed)) return;
+    const clamped = Math.min(max ?? Infinity, Math.max(min ?? -Infinity, parsed));
+    if (clamped !== round(value, step)) onCommit(clamped);
+  };
+
+  return (
+    <Row label={label} compact={compact}>
+      <input
+        type="number"
+        inputMode="decimal"
+        step={step}
+        value={draft ?? shown}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit();
+        }}
+        className="w-full min-w-0 rounded-lg border border-white/10 bg-[#0b0b0b] px-2 py-1 text-sm text-white outline-none focus:border-white/40"
+      />
+    </Row>
+  );
+}
+
+function ColorField({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <Row label="Color">
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-8 w-14 cursor-pointer rounded border border-white/15 bg-transparent p-1"
+      />
+    </Row>
+  );
+}
+
+// round shows values to the field's step (whole pixels by default).
+function round(value: number, step: number) {
+  const decimals = step < 1 ? 1 : 0;
+  return Number(value.toFixed(decimals));
+}
+
+export default Inspector;
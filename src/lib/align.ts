@@ -0,0 +1,59 @@
+// Align and distribute for a multi-selection. Both work on the overlays'
+// display-space bounds and return the shift for each box, in input order.
+
+type Box = { x: number; y: number; width: number; height: number };
+type Shift = { dx: number; dy: number };
+
+export type Alignment = "left" | "center" | "right" | "top" | "middle" | "bottom";
+
+export const alignments: Alignment[] = ["left", "center", "right", "top", "middle", "bottom"];
+
+// alignOffsets lines every box up with the matching edge or centre of the
+// group's combined bounds.
+export function alignOffsets(boxes: Box[], alignment: Alignment): Shift[] {
+  if (!boxes.length) return [];
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  return boxes.map((box) => {
+    switch (alignment) {
+      case "left":
+        return { dx: left - box.x, dy: 0 };
+      case "center":
+        return { dx: (left + right) / 2 - (box.x + box.width / 2), dy: 0 };
+      case "right":
+        return { dx: right - (box.x + box.width), dy: 0 };
+      case "top":
+        return { dx: 0, dy: top - box.y };
+      case "middle":
+        return { dx: 0, dy: (top + bottom) / 2 - (box.y + box.height / 2) };
+      case "bottom":
+        return { dx: 0, dy: bottom - (box.y + box.height) };
+    }
+  });
+}
+
+// distributeOffsets keeps the group's extent on `axis` (from the first start
+// to the furthest end) and spaces the boxes so the gaps between neighbours
+// are equal.
+export function distributeOffsets(boxes: Box[], axis: "x" | "y"): Shift[] {
+  const shifts = boxes.map(() => ({ dx: 0, dy: 0 }));
+  if (boxes.length < 3) return shifts;
+  const start = (box: Box) => (axis === "x" ? box.x : box.y);
+  const length = (box: Box) => (axis === "x" ? box.width : box.height);
+  const order = boxes.map((_, index) => index).sort((a, b) => start(boxes[a]) - start(boxes[b]));
+  const first = boxes[order[0]];
+  // The box that starts last need not end last, so take the furthest end.
+  const end = Math.max(...boxes.map((box) => start(box) + length(box)));
+  const span = end - start(first);
+  const filled = boxes.reduce((sum, box) => sum + length(box), 0);
+  const gap = (span - filled) / (boxes.length - 1);
+  let cursor = start(first);
+  order.forEach((index) => {
+    const shift = cursor - start(boxes[index]);
+    shifts[index] = axis === "x" ? { dx: shift, dy: 0 } : { dx: 0, dy: shift };
+    cursor += length(boxes[index]) + gap;
+  });
+  return shifts;
+}
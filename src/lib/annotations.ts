@@ -0,0 +1,256 @@
+import { Annotation, AnnotationMode, AnnotationStyle, Mode } from "./types";
+
+// Geometry helpers for annotations (arrows, boxes, highlighter strokes and
+// step markers). Everything works in the same display space as lenses.
+
+type Point = { x: number; y: number };
+type Box = { x: number; y: number; width: number; height: number };
+
+export const annotationModes: AnnotationMode[] = ["arrow", "rectangle", "highlight", "step"];
+
+export const annotationLabels: Record<AnnotationMode, string> = {
+  arrow: "arrow",
+  rectangle: "rectangle",
+  highlight: "highlight",
+  step: "step marker",
+};
+
+export const defaultAnnotationStyles: Record<AnnotationMode, AnnotationStyle> = {
+  arrow: { color: "#ff3b30", strokeWidth: 6, opacity: 1 },
+  rectangle: { color: "#ff3b30", strokeWidth: 4, opacity: 1 },
+  highlight: { color: "#ffe600", strokeWidth: 24, opacity: 0.4 },
+  step: { color: "#ff3b30", strokeWidth: 3, opacity: 1 },
+};
+
+const STEP_RADIUS = 16;
+// Extra grab distance around thin strokes, in display pixels.
+const HIT_SLOP = 6;
+
+export function isAnnotationMode(mode: Mode): mode is AnnotationMode {
+  return (annotationModes as Mode[]).includes(mode);
+}
+
+export function nextStepNumber(annotations: Annotation[]) {
+  return annotations.reduce(
+    (max, a) => (a.mode === "step" ? Math.max(max, a.number + 1) : max),
+    1,
+  );
+}
+
+// createAnnotation starts a new annotation at `point`; extendAnnotation grows
+// it while the pointer is dragged.
+export function createAnnotation(
+  mode: AnnotationMode,
+  point: Point,
+  style: AnnotationStyle,
+  z: number,
+  stepNumber: number,
+): Annotation {
+  const base = { id: crypto.randomUUID(), z, ...style };
+  switch (mode) {
+    case "arrow":
+      return { ...base, mode, x1: point.x, y1: point.y, x2: point.x, y2: point.y };
+    case "rectangle":
+      return { ...base, mode, x: point.x, y: point.y, width: 0, height: 0 };
+    case "highlight":
+      return { ...base, mode, points: [point] };
+    case "step":
+      return {
+        ...base,
+        mode,
+        x: point.x,
+        y: point.y,
+        radius: STEP_RADIUS,
+        number: stepNumber,
+      };
+  }
+}
+
+export function extendAnnotation(
+  annotation: Annotation,
+  start: Point,
+  point: Point,
+): Annotation {
+  switch (annotation.mode) {
+    case "arrow":
+      return { ...annotation, x2: point.x, y2: point.y };
+    case "rectangle":
+      return {
+        ...annotation,
+        x: Math.min(start.x, point.x),
+        y: Math.min(start.y, point.y),
+        width: Math.abs(point.x - start.x),
+        height: Math.abs(point.y - start.y),
+      };
+    case "highlight": {
+      // Skip jitter so long strokes stay light.
+      const last = annotation.points[annotation.points.length - 1];
+      if (Math.hypot(point.x - last.x, point.y - last.y) < 2) return annotation;
+      return { ...annotation, points: [...annotation.points, point] };
+    }
+    case "step":
+      return {
+        ...annotation,
+        radius: Math.max(STEP_RADIUS, Math.hypot(point.x - start.x, point.y - start.y)),
+      };
+  }
+}
+
+// isAnnotationUsable rejects accidental clicks in drag-to-draw modes.
+export function isAnnotationUsable(annotation: Annotation) {
+  switch (annotation.mode) {
+    case "arrow":
+      return Math.hypot(annotation.x2 - annotation.x1, annotation.y2 - annotation.y1) >= 8;
+    case "rectangle":
+      return annotation.width >= 4 && annotation.height >= 4;
+    case "highlight":
+    case "step":
+      return true;
+  }
+}
+
+export function annotationBounds(annotation: Annotation): Box {
+  switch (annotation.mode) {
+    case "arrow": {
+      const x = Math.min(annotation.x1, annotation.x2);
+      const y = Math.min(annotation.y1, annotation.y2);
+      return {
+        x,
+        y,
+        width: Math.max(annotation.x1, annotation.x2) - x,
+        height: Math.max(annotation.y1, annotation.y2) - y,
+      };
+    }
+    case "rectangle":
+      return {
+        x: annotation.x,
+        y: annotation.y,
+        width: annotation.width,
+        height: annotation.height,
+      };
+    case "highlight": {
+      const xs = annotation.points.map((p) => p.x);
+      const ys = annotation.points.map((p) => p.y);
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+      return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+    }
+    case "step":
+      return {
+        x: annotation.x - annotation.radius,
+        y: annotation.y - annotation.radius,
+        width: annotation.radius * 2,
+        height: annotation.radius * 2,
+      };
+  }
+}
+
+export function translateAnnotation(
+  annotation: Annotation,
+  dx: number,
+  dy: number,
+): Annotation {
+  switch (annotation.mode) {
+    case "arrow":
+      return {
+        ...annotation,
+        x1: annotation.x1 + dx,
+        y1: annotation.y1 + dy,
+        x2: annotation.x2 + dx,
+        y2: annotation.y2 + dy,
+      };
+    case "highlight":
+      return {
+        ...annotation,
+        points: annotation.points.map((p) => ({ x: p.x + dx, y: p.y + dy })),
+      };
+    case "rectangle":
+    case "step":
+      return { ...annotation, x: annotation.x + dx, y: annotation.y + dy };
+  }
+}
+
+// resizeAnnotation applies a resize drag of (dx, dy) to the annotation as it
+// was when the drag started. Arrows move their head; the rest grow from the
+// top-left like stickers.
+export function resizeAnnotation(
+  start: Annotation,
+  dx: number,
+  dy: number,
+): Annotation {
+  switch (start.mode) {
+    case "arrow":
+      return { ...start, x2: start.x2 + dx, y2: start.y2 + dy };
+    case "rectangle":
+      return {
+        ...start,
+        width: Math.max(8, start.width + dx),
+        height: Math.max(8, start.height + dy),
+      };
+    case "highlight": {
+      const box = annotationBounds(start);
+      const sx = box.width > 0 ? Math.max(8, box.width + dx) / box.width : 1;
+      const sy = box.height > 0 ? Math.max(8, box.height + dy) / box.height : 1;
+      return {
+        ...start,
+        points: start.points.map((p) => ({
+          x: box.x + (p.x - box.x) * sx,
+          y: box.y + (p.y - box.y) * sy,
+        })),
+      };
+    }
+    case "step":
+      return { ...start, radius: Math.max(8, start.radius + Math.max(dx, dy) / 2) };
+  }
+}
+
+export function isWithinAnnotation(annotation: Annotation, point: Point) {
+  const reach = annotation.strokeWidth / 2 + HIT_SLOP;
+  switch (annotation.mode) {
+    case "arrow":
+      return (
+        distanceToSegment(
+          point,
+          { x: annotation.x1, y: annotation.y1 },
+          { x: annotation.x2, y: annotation.y2 },
+        ) <= reach
+      );
+    case "rectangle": {
+      // Only the outline grabs, so lenses can still be drawn inside a box.
+      const { x, y, width, height } = annotation;
+      const inOuter =
+        point.x >= x - reach &&
+        point.x <= x + width + reach &&
+        point.y >= y - reach &&
+        point.y <= y + height + reach;
+      const inInner =
+        point.x > x + reach &&
+        point.x < x + width - reach &&
+        point.y > y + reach &&
+        point.y < y + height - reach;
+      return inOuter && !inInner;
+    }
+    case "highlight": {
+      const { points } = annotation;
+      if (points.length === 1) {
+        return Math.hypot(point.x - points[0].x, point.y - points[0].y) <= reach;
+      }
+      return points.some(
+        (p, i) => i > 0 && distanceToSegment(point, points[i - 1], p) <= reach,
+      );
+    }
+    case "step":
+      return Math.hypot(point.x - annotation.x, point.y - annotation.y) <= annotation.radius;
+  }
+}
+
+function distanceToSegment(point: Point, a: Point, b: Point) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.min(1, Math.max(0, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
@@ -0,0 +1,36 @@
+import { BrushSettings, BrushStroke, SceneTransform } from "./types";
+
+// Blur brush: strokes are painted in display space and stored in image
+// space, like path lens outlines, so they survive resizes and export.
+
+export const defaultBrushSettings: BrushSettings = {
+  size: 40,
+  hardness: 0.5,
+  erase: false,
+};
+
+type Point = { x: number; y: number };
+
+// createStroke converts a painted display-space stroke into image space.
+// `blur` is the display blur amount, scaled the same way as the brush size.
+export function createStroke(
+  points: Point[],
+  brush: BrushSettings,
+  blur: number,
+  t: SceneTransform,
+): BrushStroke {
+  return {
+    id: crypto.randomUUID(),
+    points: points.map((p) => ({ x: (p.x - t.offsetX) / t.scale, y: (p.y - t.offsetY) / t.scale })),
+    size: brush.size / t.scale,
+    hardness: brush.hardness,
+    blur: blur / t.scale,
+    erase: brush.erase,
+  };
+}
+
+// brushFeather is the width of a stroke's soft edge. The solid core shrinks
+// by the same amount so the faded edge ends at the brush diameter.
+export function brushFeather(size: number, hardness: number) {
+  return (size * (1 - Math.min(Math.max(hardness, 0), 1))) / 4;
+}
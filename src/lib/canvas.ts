@@ -1,4 +1,26 @@
-import { Lens, LensPreview, Sticker, TextOverlay } from "./types";
+import {
+  Annotation,
+  BrushStroke,
+  Lens,
+  LensPreview,
+  SceneTransform,
+  Sticker,
+  StickerCrop,
+  TextOverlay,
+} from "./types";
+import { brushFeather } from "./brush";
+import { DEFAULT_FONT, fontString } from "./fonts";
+import { alignOffset, textPadding } from "./text";
+import { MAX_MAGNIFICATION } from "./lens";
+import { Guide, SnapGrid } from "./snap";
+import { isSvgSource } from "./stickers";
+import { toDisplayPoints } from "./paths";
+import {
+  boxCenter,
+  ROTATION_HANDLE_OFFSET,
+  ROTATION_HANDLE_RADIUS,
+  rotatedBounds,
+} from "./rotation";
 
 type RenderArgs = {
   canvas: HTMLCanvasElement | null;
@@ -6,29 +28,97 @@ type RenderArgs = {
   lenses: Lens[];
   stickers: Sticker[];
   texts: TextOverlay[];
+  annotations: Annotation[];
+  // Blur-brush strokes in image coordinates, painted onto the image itself.
+  strokes?: BrushStroke[];
   preview: LensPreview | null;
   width: number;
   height: number;
   backgroundColor: string;
   showPlaceholder: boolean;
+  // Multiplier for fixed-size decorations (connector beam, source dot) so they
+  // keep their on-screen proportions when rendering at a different resolution.
+  overlayScale?: number;
+  // Detector suggestions awaiting accept/reject; never part of an export.
+  suggestions?: LensPreview[];
+  // Outline drawn around the selected overlay; never part of an export.
+  // `handle` adds the rotation handle above it.
+  selectionBox?: SelectionBox | null;
+  // Outlines of the other overlays in a multi-selection.
+  groupBoxes?: SelectionBox[];
+  // Snap guides and the pixel grid while editing; never part of an export.
+  guides?: Guide[];
+  grid?: SnapGrid | null;
+  // On-screen zoom/pan: maps scene coordinates to canvas pixels. The image is
+  // still fitted to width x height in scene space before the view applies.
+  view?: SceneTransform;
+  // Image placement override; set internally when a view is applied.
+  imageFit?: SceneTransform;
+};
+
+type SelectionBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  handle: boolean;
+  // Editable vertices of a path lens, drawn as handles.
+  vertices?: { x: number; y: number }[];
 };
 
 const clamp = (value: number, min: number, max: number) =>
   Math.min(Math.max(value, min), max);
 
+// solidFillColor returns `value` if it is an opaque #rrggbb colour, else
+// black. A fill lens must hide what is under it, so an unparseable or
+// (semi-)transparent colour never reaches ctx.fillStyle.
+export function solidFillColor(value: string) {
+  return /^#[0-9a-f]{6}$/i.test(value) ? value : "#000000";
+}
+
+// Scratch canvases come from the DOM by default. Server-side callers (the batch
+// CLI) swap in their own canvas implementation through setCanvasFactory.
+type CanvasFactory = (width: number, height: number) => HTMLCanvasElement | null;
+
+let createCanvas: CanvasFactory = (width, height) => {
+  if (typeof document === "undefined") return null;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export function setCanvasFactory(factory: CanvasFactory) {
+  createCanvas = factory;
+}
+
 // renderScene paints the base image, stickers, lenses, and drag preview.
-export function renderScene({
-  canvas,
-  image,
-  lenses,
-  stickers,
-  texts,
-  preview,
-  width,
-  height,
-  backgroundColor,
-  showPlaceholder,
-}: RenderArgs) {
+export function renderScene(args: RenderArgs) {
+  if (args.view) {
+    renderScene(applyView(args, args.view));
+    return;
+  }
+  const {
+    canvas,
+    image,
+    lenses,
+    stickers,
+    texts,
+    annotations,
+    preview,
+    width,
+    height,
+    backgroundColor,
+    showPlaceholder,
+    overlayScale = 1,
+    selectionBox = null,
+    groupBoxes = [],
+    guides = [],
+    grid = null,
+    suggestions = [],
+    strokes = [],
+  } = args;
   if (!canvas) return;
   const ctx = canvas.getContext("2d");
   if (!ctx) return;
@@ -45,11 +135,10 @@ export function renderScene({
     | null;
 
   if (image) {
-    const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
-    const drawWidth = image.naturalWidth * scale;
-    const drawHeight = image.naturalHeight * scale;
-    const offsetX = (width - drawWidth) / 2;
-    const offsetY = (height - drawHeight) / 2;
+    const fit = args.imageFit ?? getFitTransform(image, width, height);
+    const drawWidth = image.naturalWidth * fit.scale;
+    const drawHeight = image.naturalHeight * fit.scale;
+    const { offsetX, offsetY, scale } = fit;
     draw = { offsetX, offsetY, drawWidth, drawHeight, scale };
     ctx.drawImage(
       image,
@@ -62,33 +151,278 @@ export function renderScene({
       drawWidth,
       drawHeight,
     );
+    drawBrushLayer(ctx, image, strokes, draw, width, height);
   } else {
     drawPlaceholder(ctx, width, height, backgroundColor, showPlaceholder);
   }
 
-  // Stickers sit above the base image.
-  if (draw) {
-    stickers.forEach((sticker) => drawSticker(ctx, sticker));
-  }
+  // Overlays paint in their shared z order. Magnifier connectors are drawn
+  // directly beneath their own lens.
+  const layers = [
+    ...(draw
+      ? stickers.map((sticker) => ({
+          z: sticker.z,
+          paint: () => drawSticker(ctx, sticker),
+        }))
+      : []),
+    ...texts.map((text) => ({ z: text.z, paint: () => drawText(ctx, text) })),
+    ...annotations.map((annotation) => ({
+      z: annotation.z,
+      paint: () => drawAnnotation(ctx, annotation),
+    })),
+    ...lenses.map((lens) => ({
+      z: lens.z,
+      paint: () => {
+        if (draw && lens.mode === "magnify") {
+          drawConnector(ctx, lens, draw, overlayScale);
+        }
+        drawLens(ctx, image, width, height, lens, draw, overlayScale);
+      },
+    })),
+  ].sort((a, b) => a.z - b.z);
+  layers.forEach((layer) => layer.paint());
 
-  // Text sits above stickers but below lenses.
-  texts.forEach((text) => drawText(ctx, text));
+  if (grid) drawGrid(ctx, grid);
 
-  // Draw connectors behind lenses.
-  lenses
-    .filter((lens) => lens.mode === "magnify")
-    .forEach((lens) => {
-      if (draw) drawConnector(ctx, lens, draw);
-    });
+  suggestions.forEach((suggestion) => drawPreview(ctx, suggestion, "255, 196, 87"));
 
-  // Draw lenses above connectors.
-  lenses.forEach((lens) => drawLens(ctx, image, width, height, lens, draw));
+  groupBoxes.forEach((box) => drawSelection(ctx, box));
+  if (selectionBox) {
+    drawSelection(ctx, selectionBox);
+  }
+  guides.forEach((guide) => drawGuide(ctx, guide, width, height));
 
   if (preview) {
     drawPreview(ctx, preview);
   }
 }
 
+// applyView maps everything from scene space into canvas pixels, the same way
+// renderExport maps display space into image space.
+function applyView(args: RenderArgs, view: SceneTransform): RenderArgs {
+  const fit = args.image ? getFitTransform(args.image, args.width, args.height) : null;
+  return {
+    ...args,
+    view: undefined,
+    imageFit: fit
+      ? {
+          offsetX: (fit.offsetX - view.offsetX) / view.scale,
+          offsetY: (fit.offsetY - view.offsetY) / view.scale,
+          scale: fit.scale / view.scale,
+        }
+      : undefined,
+    lenses: args.lenses.map((lens) => mapLens(lens, view)),
+    stickers: args.stickers.map((sticker) => mapSticker(sticker, view)),
+    texts: args.texts.map((text) => mapText(text, view)),
+    annotations: args.annotations.map((annotation) => mapAnnotation(annotation, view)),
+    preview: args.preview ? mapOutline(args.preview, view) : null,
+    suggestions: args.suggestions?.map((suggestion) => mapBox(suggestion, view)),
+    selectionBox: args.selectionBox ? mapOutline(args.selectionBox, view) : null,
+    groupBoxes: args.groupBoxes?.map((box) => mapOutline(box, view)),
+    guides: args.guides?.map((guide) => ({
+      ...guide,
+      value: guide.axis === "x" ? mapX(guide.value, view) : mapY(guide.value, view),
+    })),
+    grid: args.grid ? { ...mapBox(args.grid, view), step: args.grid.step / view.scale } : null,
+    overlayScale: (args.overlayScale ?? 1) / view.scale,
+  };
+}
+
+type ExportArgs = {
+  image: HTMLImageElement | null;
+  lenses: Lens[];
+  stickers: Sticker[];
+  texts: TextOverlay[];
+  annotations: Annotation[];
+  strokes: BrushStroke[];
+  displayWidth: number;
+  displayHeight: number;
+  backgroundColor: string;
+  // Multiplier applied on top of the natural output size.
+  outputScale?: number;
+};
+
+// renderExport re-renders the scene on an offscreen canvas. With an image the
+// output matches its natural resolution; without one the blank stage is
+// upscaled to a 1920px wide canvas. Overlays are mapped out of display space.
+// `outputScale` resizes the result (0.5 = half size, 2 = double).
+export function renderExport({
+  image,
+  lenses,
+  stickers,
+  texts,
+  annotations,
+  strokes,
+  displayWidth,
+  displayHeight,
+  backgroundColor,
+  outputScale = 1,
+}: ExportArgs) {
+  let { transform, width, height } = getExportLayout(image, displayWidth, displayHeight);
+  if (outputScale !== 1) {
+    transform = { ...transform, scale: transform.scale / outputScale };
+    width = Math.max(1, Math.round(width * outputScale));
+    height = Math.max(1, Math.round(height * outputScale));
+  }
+
+  const canvas = createCanvas(width, height);
+  if (!canvas) return null;
+  renderScene({
+    canvas,
+    image,
+    lenses: lenses.map((lens) => mapLens(lens, transform)),
+    stickers: stickers.map((sticker) => mapSticker(sticker, transform)),
+    texts: texts.map((text) => mapText(text, transform)),
+    annotations: annotations.map((annotation) => mapAnnotation(annotation, transform)),
+    strokes,
+    preview: null,
+    width,
+    height,
+    backgroundColor,
+    showPlaceholder: false,
+    overlayScale: 1 / transform.scale,
+  });
+  return canvas;
+}
+
+// getExportLayout returns the 1x export size and the display -> export mapping.
+export function getExportLayout(
+  image: HTMLImageElement | null,
+  displayWidth: number,
+  displayHeight: number,
+): { transform: SceneTransform; width: number; height: number } {
+  if (image) {
+    return {
+      transform: getFitTransform(image, displayWidth, displayHeight),
+      width: image.naturalWidth,
+      height: image.naturalHeight,
+    };
+  }
+  const scale = Math.min(1, displayWidth / 1920);
+  return {
+    transform: { offsetX: 0, offsetY: 0, scale },
+    width: Math.round(displayWidth / scale),
+    height: Math.round(displayHeight / scale),
+  };
+}
+
+// getFitTransform mirrors the contain-fit used by renderScene for the base image.
+export function getFitTransform(
+  image: HTMLImageElement,
+  width: number,
+  height: number,
+): SceneTransform {
+  const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+  return {
+    offsetX: (width - image.naturalWidth * scale) / 2,
+    offsetY: (height - image.naturalHeight * scale) / 2,
+    scale,
+  };
+}
+
+// invertTransform returns the mapping from output space back to display space.
+export function invertTransform(t: SceneTransform): SceneTransform {
+  return {
+    offsetX: -t.offsetX / t.scale,
+    offsetY: -t.offsetY / t.scale,
+    scale: 1 / t.scale,
+  };
+}
+
+const mapX = (value: number, t: SceneTransform) => (value - t.offsetX) / t.scale;
+const mapY = (value: number, t: SceneTransform) => (value - t.offsetY) / t.scale;
+
+export function mapLens(lens: Lens, t: SceneTransform): Lens {
+  return {
+    ...lens,
+    x: mapX(lens.x, t),
+    y: mapY(lens.y, t),
+    width: lens.width / t.scale,
+    height: lens.height / t.scale,
+    sourceX: mapX(lens.sourceX, t),
+    sourceY: mapY(lens.sourceY, t),
+    blur: lens.blur / t.scale,
+    blockSize: lens.blockSize / t.scale,
+    feather: lens.feather / t.scale,
+    borderWidth: lens.borderWidth / t.scale,
+  };
+}
+
+// mapBox maps any axis-aligned box; detections need nothing more.
+export function mapBox<T extends { x: number; y: number; width: number; height: number }>(
+  box: T,
+  t: SceneTransform,
+): T {
+  return {
+    ...box,
+    x: mapX(box.x, t),
+    y: mapY(box.y, t),
+    width: box.width / t.scale,
+    height: box.height / t.scale,
+  };
+}
+
+// mapOutline maps a box plus the outline points or vertices drawn with it.
+function mapOutline<
+  T extends {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    points?: { x: number; y: number }[];
+    vertices?: { x: number; y: number }[];
+  },
+>(box: T, t: SceneTransform): T {
+  const mapPoints = (points?: { x: number; y: number }[]) =>
+    points?.map((p) => ({ x: mapX(p.x, t), y: mapY(p.y, t) }));
+  return { ...mapBox(box, t), points: mapPoints(box.points), vertices: mapPoints(box.vertices) };
+}
+
+export function mapSticker(sticker: Sticker, t: SceneTransform): Sticker {
+  return { ...mapBox(sticker, t), outlineWidth: sticker.outlineWidth / t.scale };
+}
+
+export function mapText(text: TextOverlay, t: SceneTransform): TextOverlay {
+  return {
+    ...text,
+    x: mapX(text.x, t),
+    y: mapY(text.y, t),
+    size: text.size / t.scale,
+    strokeWidth: text.strokeWidth / t.scale,
+  };
+}
+
+export function mapAnnotation(annotation: Annotation, t: SceneTransform): Annotation {
+  const strokeWidth = annotation.strokeWidth / t.scale;
+  switch (annotation.mode) {
+    case "arrow":
+      return {
+        ...annotation,
+        strokeWidth,
+        x1: mapX(annotation.x1, t),
+        y1: mapY(annotation.y1, t),
+        x2: mapX(annotation.x2, t),
+        y2: mapY(annotation.y2, t),
+      };
+    case "rectangle":
+      return { ...mapBox(annotation, t), strokeWidth };
+    case "highlight":
+      return {
+        ...annotation,
+        strokeWidth,
+        points: annotation.points.map((p) => ({ x: mapX(p.x, t), y: mapY(p.y, t) })),
+      };
+    case "step":
+      return {
+        ...annotation,
+        strokeWidth,
+        x: mapX(annotation.x, t),
+        y: mapY(annotation.y, t),
+        radius: annotation.radius / t.scale,
+      };
+  }
+}
+
 function drawPlaceholder(
   ctx: CanvasRenderingContext2D,
   width: number,
@@ -123,16 +457,45 @@ function drawLens(
         scale: number;
       }
     | null,
+  overlayScale: number,
 ) {
   if (!image || !draw) return;
 
-  ctx.save();
   const radius = Math.min(lens.width, lens.height) * 0.2;
-  drawShape(ctx, lens, radius);
+  const outline = lensOutline(lens, draw);
+  if (lens.mode !== "magnify" && (lens.feather > 0 || lens.opacity < 1)) {
+    drawSoftRedaction(ctx, image, lens, outline, radius, draw, canvasWidth, canvasHeight);
+    return;
+  }
+
+  if (lens.mode === "magnify" && lens.shadow) {
+    ctx.save();
+    ctx.shadowColor = "rgba(0, 0, 0, 0.45)";
+    ctx.shadowBlur = 18 * overlayScale;
+    ctx.shadowOffsetY = 6 * overlayScale;
+    ctx.fillStyle = "#000000";
+    drawShape(ctx, outline, radius);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  ctx.save();
+  drawShape(ctx, outline, radius);
   ctx.clip();
 
-  if (lens.mode === "blur") {
-    ctx.filter = `blur(${lens.blur}px)`;
+  if (lens.mode !== "magnify") {
+    drawRedaction(ctx, image, lens, draw, canvasWidth, canvasHeight);
+  } else {
+    const centerX = lens.x + lens.width / 2;
+    const centerY = lens.y + lens.height / 2;
+    const sourceDisplayX = draw.offsetX + lens.sourceImageX * draw.scale;
+    const sourceDisplayY = draw.offsetY + lens.sourceImageY * draw.scale;
+    const zoom = clamp(lens.magnification, 1, MAX_MAGNIFICATION);
+    ctx.translate(centerX, centerY);
+    ctx.scale(zoom, zoom);
+    ctx.translate(-sourceDisplayX, -sourceDisplayY);
+    // Nearest-neighbour keeps every image pixel a crisp square.
+    ctx.imageSmoothingEnabled = !lens.pixelated;
     ctx.drawImage(
       image,
       0,
@@ -144,15 +507,127 @@ function drawLens(
       draw.drawWidth,
       draw.drawHeight,
     );
-    ctx.filter = "none";
-  } else {
-    const centerX = lens.x + lens.width / 2;
-    const centerY = lens.y + lens.height / 2;
-    const sourceDisplayX = draw.offsetX + lens.sourceImageX * draw.scale;
-    const sourceDisplayY = draw.offsetY + lens.sourceImageY * draw.scale;
-    ctx.translate(centerX, centerY);
-    ctx.scale(clamp(lens.magnification, 1, 4), clamp(lens.magnification, 1, 4));
-    ctx.translate(-sourceDisplayX, -sourceDisplayY);
+  }
+
+  ctx.restore();
+
+  if (lens.mode === "magnify") {
+    if (lens.sheen) drawGlassOverlay(ctx, outline, radius);
+    if (lens.borderWidth > 0) {
+      ctx.save();
+      drawShape(ctx, outline, radius);
+      ctx.strokeStyle = lens.borderColor;
+      ctx.lineWidth = lens.borderWidth;
+      ctx.stroke();
+      ctx.restore();
+    }
+  }
+}
+
+// drawSoftRedaction renders a lens through an offscreen layer, so the effect
+// can fade out over `feather` pixels at its edge and be partly transparent.
+// Without ctx.filter the edge stays hard but the opacity still applies.
+function drawSoftRedaction(
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  lens: Lens,
+  outline: Parameters<typeof drawShape>[1],
+  radius: number,
+  draw: {
+    offsetX: number;
+    offsetY: number;
+    drawWidth: number;
+    drawHeight: number;
+    scale: number;
+  },
+  canvasWidth: number,
+  canvasHeight: number,
+) {
+  const bounds = rotatedBounds(lens, lens.rotation);
+  const left = Math.floor(Math.max(bounds.x, 0));
+  const top = Math.floor(Math.max(bounds.y, 0));
+  const right = Math.ceil(Math.min(bounds.x + bounds.width, canvasWidth));
+  const bottom = Math.ceil(Math.min(bounds.y + bounds.height, canvasHeight));
+  if (right <= left || bottom <= top) return;
+
+  const width = right - left;
+  const height = bottom - top;
+  const layer = createCanvas(width, height);
+  const layerCtx = layer?.getContext("2d");
+  let mask = createCanvas(width, height);
+  const maskCtx = mask?.getContext("2d");
+  if (!layer || !layerCtx || !mask || !maskCtx) {
+    ctx.save();
+    drawShape(ctx, outline, radius);
+    ctx.clip();
+    ctx.globalAlpha = clamp(lens.opacity, 0, 1);
+    drawRedaction(ctx, image, lens, draw, canvasWidth, canvasHeight);
+    ctx.restore();
+    return;
+  }
+
+  layerCtx.translate(-left, -top);
+  drawRedaction(layerCtx, image, lens, draw, canvasWidth, canvasHeight);
+
+  maskCtx.translate(-left, -top);
+  drawShape(maskCtx, outline, radius);
+  maskCtx.fill();
+  const feather = Math.min(lens.feather, Math.min(lens.width, lens.height) / 2);
+  const soft = feather > 0 ? createCanvas(width, height) : null;
+  const softCtx = soft?.getContext("2d");
+  if (soft && softCtx && typeof softCtx.filter === "string") {
+    // Shrink the shape by half the feather, then blur it back out so the
+    // fade ends at the outline instead of spilling past it.
+    maskCtx.globalCompositeOperation = "destination-out";
+    maskCtx.lineWidth = feather;
+    drawShape(maskCtx, outline, radius);
+    maskCtx.stroke();
+    softCtx.filter = `blur(${feather / 4}px)`;
+    softCtx.drawImage(mask, 0, 0);
+    mask = soft;
+  }
+
+  layerCtx.setTransform(1, 0, 0, 1, 0, 0);
+  layerCtx.globalCompositeOperation = "destination-in";
+  layerCtx.drawImage(mask, 0, 0);
+  ctx.save();
+  ctx.globalAlpha = clamp(lens.opacity, 0, 1);
+  ctx.drawImage(layer, left, top);
+  ctx.restore();
+}
+
+type RedactionArea = Pick<
+  Lens,
+  "id" | "mode" | "x" | "y" | "width" | "height" | "rotation" | "blur" | "blockSize" | "fillColor"
+>;
+
+// drawRedaction obscures the lens region. Everything except filter-based blur
+// is computed from the pixel data itself, so the output never depends on
+// ctx.filter support; if pixels cannot be read the region is filled instead.
+function drawRedaction(
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  lens: RedactionArea,
+  draw: {
+    offsetX: number;
+    offsetY: number;
+    drawWidth: number;
+    drawHeight: number;
+    scale: number;
+  },
+  canvasWidth: number,
+  canvasHeight: number,
+) {
+  // A rotated lens covers more than its own box; the caller's clip trims it.
+  const bounds = rotatedBounds(lens, lens.rotation);
+  if (lens.mode === "fill") {
+    ctx.fillStyle = solidFillColor(lens.fillColor);
+    ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    return;
+  }
+
+  if (lens.mode === "blur" && typeof ctx.filter === "string") {
+    ctx.filter = `blur(${lens.blur}px)`;
     ctx.drawImage(
       image,
       0,
@@ -164,18 +639,288 @@ function drawLens(
       draw.drawWidth,
       draw.drawHeight,
     );
+    ctx.filter = "none";
+    return;
   }
 
-  ctx.restore();
+  // Only the visible part of the lens is processed, which keeps zoomed-in
+  // lenses cheap. Blur gets a margin so its edges match an unclipped render,
+  // and pixelate stays aligned to the lens's own block grid.
+  const block = Math.max(2, Math.round(lens.blockSize));
+  const radius = Math.max(1, Math.round(lens.blur));
+  const margin = lens.mode === "pixelate" ? 0 : radius * 3;
+  let left = Math.max(bounds.x, -margin);
+  let top = Math.max(bounds.y, -margin);
+  if (lens.mode === "pixelate") {
+    left = lens.x + Math.floor((left - lens.x) / block) * block;
+    top = lens.y + Math.floor((top - lens.y) / block) * block;
+  }
+  const right = Math.min(bounds.x + bounds.width, canvasWidth + margin);
+  const bottom = Math.min(bounds.y + bounds.height, canvasHeight + margin);
+  if (right <= left || bottom <= top) return;
 
-  ctx.save();
-  if (lens.mode === "magnify") {
-    drawGlassOverlay(ctx, lens, radius);
+  const width = Math.max(1, Math.round(right - left));
+  const height = Math.max(1, Math.round(bottom - top));
+  const region = createCanvas(width, height);
+  const regionCtx = region?.getContext("2d") ?? null;
+  let pixels: ImageData | null = null;
+  if (regionCtx) {
+    regionCtx.drawImage(
+      image,
+      0,
+      0,
+      image.naturalWidth,
+      image.naturalHeight,
+      draw.offsetX - left,
+      draw.offsetY - top,
+      draw.drawWidth,
+      draw.drawHeight,
+    );
+    try {
+      pixels = regionCtx.getImageData(0, 0, width, height);
+    } catch {
+      pixels = null;
+    }
+  }
+
+  if (!region || !regionCtx || !pixels) {
+    ctx.fillStyle = "#000000";
+    ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    return;
+  }
+
+  if (lens.mode === "pixelate") {
+    pixelate(pixels, block);
+  } else {
+    boxBlur(pixels, radius);
+    if (lens.mode === "noise") {
+      addNoise(pixels, hashSeed(lens.id), 64);
+    }
+  }
+
+  regionCtx.putImageData(pixels, 0, 0);
+  ctx.drawImage(region, left, top, right - left, bottom - top);
+}
+
+// drawBrushLayer shows a blurred copy of the image through the painted brush
+// strokes. Strokes are grouped by blur radius; an eraser stroke clears every
+// group painted before it, so later strokes can paint over it again.
+function drawBrushLayer(
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  strokes: BrushStroke[],
+  draw: {
+    offsetX: number;
+    offsetY: number;
+    drawWidth: number;
+    drawHeight: number;
+    scale: number;
+  },
+  canvasWidth: number,
+  canvasHeight: number,
+) {
+  const masks = new Map<number, { canvas: HTMLCanvasElement; bounds: Box | null }>();
+  for (const stroke of strokes) {
+    if (stroke.erase) {
+      masks.forEach((mask) => paintStroke(mask.canvas, stroke, draw));
+      continue;
+    }
+    let mask = masks.get(stroke.blur);
+    if (!mask) {
+      const canvas = createCanvas(canvasWidth, canvasHeight);
+      if (!canvas) return;
+      mask = { canvas, bounds: null };
+      masks.set(stroke.blur, mask);
+    }
+    paintStroke(mask.canvas, stroke, draw);
+    mask.bounds = unionBox(mask.bounds, strokeBounds(stroke, draw));
   }
 
+  masks.forEach((mask, blur) => {
+    const layer = createCanvas(canvasWidth, canvasHeight);
+    const layerCtx = layer?.getContext("2d");
+    if (!layer || !layerCtx || !mask.bounds) return;
+    drawRedaction(
+      layerCtx,
+      image,
+      {
+        id: "brush",
+        mode: "blur",
+        ...mask.bounds,
+        rotation: 0,
+        blur: blur * draw.scale,
+        blockSize: 0,
+        fillColor: "#000000",
+      },
+      draw,
+      canvasWidth,
+      canvasHeight,
+    );
+    layerCtx.globalCompositeOperation = "destination-in";
+    layerCtx.drawImage(mask.canvas, 0, 0);
+    ctx.drawImage(layer, 0, 0);
+  });
+}
+
+type Box = { x: number; y: number; width: number; height: number };
+
+function unionBox(a: Box | null, b: Box): Box {
+  if (!a) return b;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+// strokeBounds is the canvas-space box a stroke can cover.
+function strokeBounds(stroke: BrushStroke, draw: { offsetX: number; offsetY: number; scale: number }) {
+  const xs = stroke.points.map((p) => draw.offsetX + p.x * draw.scale);
+  const ys = stroke.points.map((p) => draw.offsetY + p.y * draw.scale);
+  const reach = (stroke.size * draw.scale) / 2 + 1;
+  const x = Math.min(...xs) - reach;
+  const y = Math.min(...ys) - reach;
+  return {
+    x,
+    y,
+    width: Math.max(...xs) + reach - x,
+    height: Math.max(...ys) + reach - y,
+  };
+}
+
+// paintStroke adds a stroke to a mask canvas, or cuts it out for erasers.
+// The soft edge comes from blurring the stroke where ctx.filter exists;
+// elsewhere strokes keep a hard edge.
+function paintStroke(
+  canvas: HTMLCanvasElement,
+  stroke: BrushStroke,
+  draw: { offsetX: number; offsetY: number; scale: number },
+) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx || stroke.points.length === 0) return;
+  const size = stroke.size * draw.scale;
+  const feather = brushFeather(size, stroke.hardness);
+  const points = stroke.points.map((p) => ({
+    x: draw.offsetX + p.x * draw.scale,
+    y: draw.offsetY + p.y * draw.scale,
+  }));
+  ctx.save();
+  ctx.globalCompositeOperation = stroke.erase ? "destination-out" : "source-over";
+  if (feather > 0.5 && typeof ctx.filter === "string") {
+    ctx.filter = `blur(${feather / 2}px)`;
+  }
+  ctx.strokeStyle = "#000000";
+  ctx.fillStyle = "#000000";
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.lineWidth = Math.max(1, size - feather * 2);
+  ctx.beginPath();
+  if (points.length === 1) {
+    ctx.arc(points[0].x, points[0].y, ctx.lineWidth / 2, 0, Math.PI * 2);
+    ctx.fill();
+  } else {
+    points.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)));
+    ctx.stroke();
+  }
   ctx.restore();
 }
 
+// pixelate replaces every block with its average colour.
+function pixelate(pixels: ImageData, blockSize: number) {
+  const { data, width, height } = pixels;
+  for (let by = 0; by < height; by += blockSize) {
+    for (let bx = 0; bx < width; bx += blockSize) {
+      const maxX = Math.min(bx + blockSize, width);
+      const maxY = Math.min(by + blockSize, height);
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let y = by; y < maxY; y++) {
+        for (let x = bx; x < maxX; x++) {
+          const i = (y * width + x) * 4;
+          r += data[i];
+          g += data[i + 1];
+          b += data[i + 2];
+          a += data[i + 3];
+        }
+      }
+      const count = (maxX - bx) * (maxY - by);
+      for (let y = by; y < maxY; y++) {
+        for (let x = bx; x < maxX; x++) {
+          const i = (y * width + x) * 4;
+          data[i] = r / count;
+          data[i + 1] = g / count;
+          data[i + 2] = b / count;
+          data[i + 3] = a / count;
+        }
+      }
+    }
+  }
+}
+
+// boxBlur approximates a gaussian with three separable box passes.
+function boxBlur(pixels: ImageData, radius: number) {
+  const { data, width, height } = pixels;
+  const buffer = new Float32Array(data.length);
+  for (let pass = 0; pass < 3; pass++) {
+    blurAxis(data, buffer, width, height, radius, true);
+    blurAxis(buffer, data, width, height, radius, false);
+  }
+}
+
+function blurAxis(
+  src: ArrayLike<number>,
+  dst: { [index: number]: number },
+  width: number,
+  height: number,
+  radius: number,
+  horizontal: boolean,
+) {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const window = radius * 2 + 1;
+  for (let line = 0; line < lines; line++) {
+    const index = (pos: number) => {
+      const p = clamp(pos, 0, length - 1);
+      return (horizontal ? line * width + p : p * width + line) * 4;
+    };
+    for (let c = 0; c < 4; c++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) sum += src[index(k) + c];
+      for (let pos = 0; pos < length; pos++) {
+        dst[index(pos) + c] = sum / window;
+        sum += src[index(pos + radius + 1) + c] - src[index(pos - radius) + c];
+      }
+    }
+  }
+}
+
+// addNoise perturbs colour channels with a deterministic per-lens sequence so
+// the grain stays stable between renders.
+function addNoise(pixels: ImageData, seed: number, amount: number) {
+  const { data } = pixels;
+  let state = seed;
+  for (let i = 0; i < data.length; i += 4) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    const offset = ((state / 0xffffffff) * 2 - 1) * amount;
+    data[i] += offset;
+    data[i + 1] += offset;
+    data[i + 2] += offset;
+  }
+}
+
+function hashSeed(value: string) {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
 function drawConnector(
   ctx: CanvasRenderingContext2D,
   lens: Lens,
@@ -186,20 +931,62 @@ function drawConnector(
     drawHeight: number;
     scale: number;
   },
+  overlayScale: number,
 ) {
   const targetX = lens.x + lens.width / 2;
   const targetY = lens.y + lens.height / 2;
   const sourceX = draw.offsetX + lens.sourceImageX * draw.scale;
   const sourceY = draw.offsetY + lens.sourceImageY * draw.scale;
 
+  if (lens.connector === "frame") {
+    // Outline the area shown in the lens, in the lens's own shape.
+    const zoom = clamp(lens.magnification, 1, MAX_MAGNIFICATION);
+    const width = lens.width / zoom;
+    const height = lens.height / zoom;
+    ctx.save();
+    drawShape(
+      ctx,
+      {
+        x: sourceX - width / 2,
+        y: sourceY - height / 2,
+        width,
+        height,
+        shape: lens.shape,
+        rotation: lens.rotation,
+      },
+      Math.min(width, height) * 0.2,
+    );
+    ctx.strokeStyle = lens.borderColor;
+    ctx.lineWidth = Math.max(lens.borderWidth, 1.5 * overlayScale);
+    ctx.stroke();
+    ctx.restore();
+    return;
+  }
+
+  if (lens.connector === "line") {
+    ctx.save();
+    ctx.strokeStyle = lens.borderColor;
+    ctx.fillStyle = lens.borderColor;
+    ctx.lineWidth = Math.max(lens.borderWidth, 1.5 * overlayScale);
+    ctx.beginPath();
+    ctx.moveTo(sourceX, sourceY);
+    ctx.lineTo(targetX, targetY);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(sourceX, sourceY, 4 * overlayScale, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+    return;
+  }
+
   const dx = targetX - sourceX;
   const dy = targetY - sourceY;
   const len = Math.hypot(dx, dy) || 1;
   const nx = -dy / len;
   const ny = dx / len;
 
-  const endWidth = Math.min(lens.width * 0.12, 16);
-  const startWidth = 4;
+  const endWidth = Math.min(lens.width * 0.12, 16 * overlayScale);
+  const startWidth = 4 * overlayScale;
 
   const start1 = { x: sourceX + nx * startWidth, y: sourceY + ny * startWidth };
   const start2 = { x: sourceX - nx * startWidth, y: sourceY - ny * startWidth };
@@ -221,25 +1008,38 @@ function drawConnector(
   ctx.closePath();
   ctx.fillStyle = gradient;
   ctx.shadowColor = "rgba(0,0,0,0.25)";
-  ctx.shadowBlur = 6;
+  ctx.shadowBlur = 6 * overlayScale;
   ctx.fill();
   ctx.globalAlpha = 1;
 
   ctx.strokeStyle = "rgba(255,255,255,0.18)";
-  ctx.lineWidth = 1.1;
+  ctx.lineWidth = 1.1 * overlayScale;
   ctx.stroke();
 
   ctx.fillStyle = "rgba(255, 255, 255, 0.72)";
   ctx.beginPath();
-  ctx.arc(sourceX, sourceY, 5.5, 0, Math.PI * 2);
+  ctx.arc(sourceX, sourceY, 5.5 * overlayScale, 0, Math.PI * 2);
   ctx.fill();
   ctx.strokeStyle = "rgba(255,255,255,0.5)";
-  ctx.lineWidth = 1.2;
+  ctx.lineWidth = 1.2 * overlayScale;
   ctx.stroke();
   ctx.restore();
 }
 
-function drawGlassOverlay(ctx: CanvasRenderingContext2D, lens: Lens, radius: number) {
+// lensOutline adds the canvas-space outline a path lens is drawn with.
+function lensOutline(
+  lens: Lens,
+  draw: { offsetX: number; offsetY: number; scale: number },
+) {
+  if (lens.shape !== "path" || !lens.imagePoints) return lens;
+  return { ...lens, points: toDisplayPoints(lens.imagePoints, draw) };
+}
+
+function drawGlassOverlay(
+  ctx: CanvasRenderingContext2D,
+  lens: Lens & { points?: { x: number; y: number }[] },
+  radius: number,
+) {
   const cx = lens.x + lens.width / 2;
   const cy = lens.y + lens.height / 2;
   const gradient = ctx.createRadialGradient(
@@ -256,51 +1056,260 @@ function drawGlassOverlay(ctx: CanvasRenderingContext2D, lens: Lens, radius: num
 
   ctx.save();
   drawShape(ctx, lens, radius);
-  ctx.clip();
   ctx.fillStyle = gradient;
-  ctx.fillRect(lens.x, lens.y, lens.width, lens.height);
+  ctx.fill();
   ctx.restore();
 }
 
+// drawSticker paints a sticker with its effects. Opacity and the shadow apply
+// to the finished sticker, outline included, so those go through a layer.
 function drawSticker(ctx: CanvasRenderingContext2D, sticker: Sticker) {
+  const opacity = clamp(sticker.opacity, 0, 1);
+  if (!sticker.shadow && opacity >= 1) {
+    paintSticker(ctx, sticker);
+    return;
+  }
+
+  const pad = sticker.outlineWidth / 2 + 1;
+  const bounds = rotatedBounds(sticker, sticker.rotation);
+  const left = Math.floor(Math.max(bounds.x - pad, 0));
+  const top = Math.floor(Math.max(bounds.y - pad, 0));
+  const right = Math.ceil(Math.min(bounds.x + bounds.width + pad, ctx.canvas.width));
+  const bottom = Math.ceil(Math.min(bounds.y + bounds.height + pad, ctx.canvas.height));
+  const layer = right > left && bottom > top ? createCanvas(right - left, bottom - top) : null;
+  const layerCtx = layer?.getContext("2d");
+
+  ctx.save();
+  ctx.globalAlpha = opacity;
+  if (sticker.shadow) {
+    const size = Math.min(sticker.width, sticker.height);
+    ctx.shadowColor = "rgba(0, 0, 0, 0.45)";
+    ctx.shadowBlur = size * 0.12;
+    ctx.shadowOffsetY = size * 0.04;
+  }
+  if (layer && layerCtx) {
+    layerCtx.translate(-left, -top);
+    paintSticker(layerCtx, sticker);
+    ctx.drawImage(layer, left, top);
+  } else {
+    paintSticker(ctx, sticker);
+  }
+  ctx.restore();
+}
+
+// paintSticker draws the cropped, flipped image clipped to the sticker shape,
+// then its outline.
+function paintSticker(ctx: CanvasRenderingContext2D, sticker: Sticker) {
+  const radius =
+    sticker.shape === "rectangle" ? 0 : Math.min(sticker.width, sticker.height) * 0.2;
+  const crop = sticker.crop ?? { x: 0, y: 0, width: 1, height: 1 };
   ctx.save();
-  const radius = Math.min(sticker.width, sticker.height) * 0.2;
   drawShape(ctx, sticker, radius);
   ctx.clip();
+  rotateAbout(ctx, sticker, sticker.rotation);
+  if (sticker.flipX || sticker.flipY) {
+    ctx.translate(sticker.x + sticker.width / 2, sticker.y + sticker.height / 2);
+    ctx.scale(sticker.flipX ? -1 : 1, sticker.flipY ? -1 : 1);
+    ctx.translate(-(sticker.x + sticker.width / 2), -(sticker.y + sticker.height / 2));
+  }
+  const source = stickerSource(ctx, sticker, crop);
   ctx.drawImage(
-    sticker.image,
-    0,
-    0,
-    sticker.image.naturalWidth,
-    sticker.image.naturalHeight,
+    source.image,
+    crop.x * source.width,
+    crop.y * source.height,
+    crop.width * source.width,
+    crop.height * source.height,
     sticker.x,
     sticker.y,
     sticker.width,
     sticker.height,
   );
   ctx.restore();
+
+  if (sticker.outlineWidth > 0) {
+    ctx.save();
+    drawShape(ctx, sticker, radius);
+    ctx.strokeStyle = sticker.outlineColor;
+    ctx.lineWidth = sticker.outlineWidth;
+    ctx.stroke();
+    ctx.restore();
+  }
+}
+
+// SVG rasters by sticker image and device size. A few sizes are kept so
+// copies of one sticker at different sizes do not re-rasterise every frame.
+const svgRasters = new WeakMap<HTMLImageElement, Map<string, HTMLCanvasElement>>();
+const MAX_SVG_RASTERS = 4;
+
+// stickerSource rasterises SVG stickers at the size they cover in device
+// pixels (zoom, export scale and crop included), so vectors stay crisp
+// instead of being scaled as bitmaps. Bitmaps are drawn as they are.
+function stickerSource(
+  ctx: CanvasRenderingContext2D,
+  sticker: Sticker,
+  crop: StickerCrop,
+): { image: CanvasImageSource; width: number; height: number } {
+  const bitmap = {
+    image: sticker.image,
+    width: sticker.image.naturalWidth,
+    height: sticker.image.naturalHeight,
+  };
+  if (!isSvgSource(sticker.src)) return bitmap;
+  const m = ctx.getTransform();
+  const scale = Math.hypot(m.a, m.b);
+  const width = Math.min(Math.ceil((sticker.width * scale) / crop.width), 4096);
+  const height = Math.min(Math.ceil((sticker.height * scale) / crop.height), 4096);
+  if (!(width > 0 && height > 0)) return bitmap;
+
+  const key = `${width}x${height}`;
+  const rasters = svgRasters.get(sticker.image) ?? new Map<string, HTMLCanvasElement>();
+  svgRasters.set(sticker.image, rasters);
+  let raster = rasters.get(key);
+  if (!raster) {
+    const canvas = createCanvas(width, height);
+    const rasterCtx = canvas?.getContext("2d");
+    if (!canvas || !rasterCtx) return bitmap;
+    rasterCtx.drawImage(sticker.image, 0, 0, width, height);
+    raster = canvas;
+    if (rasters.size >= MAX_SVG_RASTERS) rasters.delete(rasters.keys().next().value!);
+    rasters.set(key, raster);
+  }
+  return { image: raster, width, height };
 }
 
 function drawText(ctx: CanvasRenderingContext2D, text: TextOverlay) {
   ctx.save();
-  ctx.fillStyle = text.color;
-  const safeFont = text.font.includes(" ") ? `'${text.font}'` : text.font;
-  ctx.font = `${text.size}px ${safeFont}, Terminus, monospace`;
+  ctx.font = fontString(text.size, text.font, text);
   ctx.textBaseline = "top";
 
   const lines = text.text.split(/\r?\n/);
   const lineHeight = text.size * 1.2;
+  const widths = lines.map((line) => ctx.measureText(line).width);
+  // Same minimum block width as the stage's bounds estimate.
+  const blockWidth = Math.max(30, ...widths);
+  rotateAbout(
+    ctx,
+    { x: text.x, y: text.y, width: blockWidth, height: lines.length * lineHeight },
+    text.rotation,
+  );
+
+  if (text.background) {
+    const padding = textPadding(text);
+    ctx.globalAlpha = clamp(text.backgroundOpacity, 0, 1);
+    ctx.fillStyle = text.backgroundColor;
+    ctx.beginPath();
+    roundedRect(
+      ctx,
+      text.x - padding,
+      text.y - padding,
+      blockWidth + padding * 2,
+      lines.length * lineHeight + padding * 2,
+      padding,
+    );
+    ctx.fill();
+    ctx.globalAlpha = 1;
+  }
+
+  if (text.shadow) {
+    ctx.shadowColor = "rgba(0, 0, 0, 0.65)";
+    ctx.shadowBlur = text.size * 0.25;
+    ctx.shadowOffsetX = text.size * 0.08;
+    ctx.shadowOffsetY = text.size * 0.08;
+  }
+  const lineX = (idx: number) => text.x + alignOffset(text.align, blockWidth, widths[idx]);
+  if (text.strokeWidth > 0) {
+    ctx.strokeStyle = text.strokeColor;
+    ctx.lineWidth = text.strokeWidth;
+    ctx.lineJoin = "round";
+    lines.forEach((line, idx) => {
+      ctx.strokeText(line, lineX(idx), text.y + idx * lineHeight);
+    });
+    // The outline already casts the shadow; a second one would darken it.
+    ctx.shadowColor = "transparent";
+  }
+  ctx.fillStyle = text.color;
   lines.forEach((line, idx) => {
-    ctx.fillText(line, text.x, text.y + idx * lineHeight);
+    ctx.fillText(line, lineX(idx), text.y + idx * lineHeight);
   });
   ctx.restore();
 }
 
-function drawPreview(ctx: CanvasRenderingContext2D, preview: LensPreview) {
+function drawAnnotation(ctx: CanvasRenderingContext2D, annotation: Annotation) {
+  ctx.save();
+  ctx.globalAlpha = clamp(annotation.opacity, 0, 1);
+  ctx.strokeStyle = annotation.color;
+  ctx.fillStyle = annotation.color;
+  ctx.lineWidth = annotation.strokeWidth;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  switch (annotation.mode) {
+    case "arrow": {
+      const { x1, y1, x2, y2, strokeWidth } = annotation;
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const head = Math.max(14, strokeWidth * 4);
+      // Stop the shaft inside the head so the round cap does not poke out.
+      const shaft = Math.max(0, Math.hypot(x2 - x1, y2 - y1) - head * 0.6);
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x1 + Math.cos(angle) * shaft, y1 + Math.sin(angle) * shaft);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(x2, y2);
+      ctx.lineTo(
+        x2 - head * Math.cos(angle - Math.PI / 7),
+        y2 - head * Math.sin(angle - Math.PI / 7),
+      );
+      ctx.lineTo(
+        x2 - head * Math.cos(angle + Math.PI / 7),
+        y2 - head * Math.sin(angle + Math.PI / 7),
+      );
+      ctx.closePath();
+      ctx.fill();
+      break;
+    }
+    case "rectangle":
+      ctx.strokeRect(annotation.x, annotation.y, annotation.width, annotation.height);
+      break;
+    case "highlight": {
+      // One path keeps overlapping segments from stacking their opacity.
+      const [first, ...rest] = annotation.points;
+      ctx.beginPath();
+      ctx.moveTo(first.x, first.y);
+      if (rest.length === 0) ctx.lineTo(first.x + 0.01, first.y);
+      rest.forEach((p) => ctx.lineTo(p.x, p.y));
+      ctx.stroke();
+      break;
+    }
+    case "step": {
+      const { x, y, radius, strokeWidth } = annotation;
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+      if (strokeWidth > 0) {
+        ctx.strokeStyle = "#ffffff";
+        ctx.stroke();
+      }
+      ctx.fillStyle = "#ffffff";
+      ctx.font = `700 ${Math.round(radius * 1.1)}px ${DEFAULT_FONT}, monospace`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(String(annotation.number), x, y + radius * 0.05);
+      break;
+    }
+  }
+  ctx.restore();
+}
+
+function drawPreview(
+  ctx: CanvasRenderingContext2D,
+  preview: LensPreview,
+  rgb = "154, 246, 227",
+) {
   const radius = Math.min(preview.width, preview.height) * 0.2;
   ctx.save();
-  ctx.strokeStyle = "rgba(154, 246, 227, 0.65)";
-  ctx.fillStyle = "rgba(154, 246, 227, 0.08)";
+  ctx.strokeStyle = `rgba(${rgb}, 0.65)`;
+  ctx.fillStyle = `rgba(${rgb}, 0.08)`;
   ctx.lineWidth = 1.2;
   ctx.setLineDash([6, 6]);
   drawShape(ctx, preview, radius);
@@ -310,13 +1319,112 @@ function drawPreview(ctx: CanvasRenderingContext2D, preview: LensPreview) {
   ctx.restore();
 }
 
+function drawSelection(ctx: CanvasRenderingContext2D, box: SelectionBox) {
+  ctx.save();
+  rotateAbout(ctx, box, box.rotation);
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.85)";
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 4]);
+  ctx.strokeRect(box.x - 3.5, box.y - 3.5, box.width + 7, box.height + 7);
+  if (box.handle) {
+    const cx = box.x + box.width / 2;
+    const cy = box.y - ROTATION_HANDLE_OFFSET;
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    ctx.moveTo(cx, box.y - 3.5);
+    ctx.lineTo(cx, cy + ROTATION_HANDLE_RADIUS);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(cx, cy, ROTATION_HANDLE_RADIUS, 0, Math.PI * 2);
+    ctx.fillStyle = "rgba(20, 20, 20, 0.85)";
+    ctx.fill();
+    ctx.stroke();
+  }
+  ctx.setLineDash([]);
+  ctx.fillStyle = "rgba(255, 255, 255, 0.95)";
+  box.vertices?.forEach((vertex) => {
+    ctx.fillRect(vertex.x - 3, vertex.y - 3, 6, 6);
+  });
+  ctx.restore();
+}
+
+// Grid lines closer than this many canvas pixels are not drawn.
+const MIN_GRID_SPACING = 4;
+
+function drawGrid(ctx: CanvasRenderingContext2D, grid: SnapGrid) {
+  if (grid.step < MIN_GRID_SPACING) return;
+  ctx.save();
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.12)";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  // Half-pixel offsets keep 1px lines sharp.
+  for (let x = grid.x; x <= grid.x + grid.width + 0.5; x += grid.step) {
+    const line = Math.round(x) + 0.5;
+    ctx.moveTo(line, grid.y);
+    ctx.lineTo(line, grid.y + grid.height);
+  }
+  for (let y = grid.y; y <= grid.y + grid.height + 0.5; y += grid.step) {
+    const line = Math.round(y) + 0.5;
+    ctx.moveTo(grid.x, line);
+    ctx.lineTo(grid.x + grid.width, line);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawGuide(ctx: CanvasRenderingContext2D, guide: Guide, width: number, height: number) {
+  ctx.save();
+  ctx.strokeStyle = "rgba(255, 64, 160, 0.9)";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  const line = Math.round(guide.value) + 0.5;
+  if (guide.axis === "x") {
+    ctx.moveTo(line, 0);
+    ctx.lineTo(line, height);
+  } else {
+    ctx.moveTo(0, line);
+    ctx.lineTo(width, line);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+// rotateAbout turns the context by `degrees` about the centre of `box`.
+function rotateAbout(
+  ctx: CanvasRenderingContext2D,
+  box: { x: number; y: number; width: number; height: number },
+  degrees: number,
+) {
+  if (!degrees) return;
+  const center = boxCenter(box);
+  ctx.translate(center.x, center.y);
+  ctx.rotate((degrees * Math.PI) / 180);
+  ctx.translate(-center.x, -center.y);
+}
+
+// drawShape traces the outline, turned by `rotation` when the item has one.
+// The path keeps the rotation after the transform is restored.
 function drawShape(
   ctx: CanvasRenderingContext2D,
-  lens: { x: number; y: number; width: number; height: number; shape: string },
+  lens: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    shape: string;
+    rotation?: number;
+    points?: { x: number; y: number }[];
+  },
   radius: number,
 ) {
+  ctx.save();
+  rotateAbout(ctx, lens, lens.rotation ?? 0);
   ctx.beginPath();
-  if (lens.shape === "circle") {
+  if (lens.shape === "path" && lens.points?.length) {
+    lens.points.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)));
+  } else if (lens.shape === "rectangle") {
+    ctx.rect(lens.x, lens.y, lens.width, lens.height);
+  } else if (lens.shape === "circle") {
     ctx.ellipse(
       lens.x + lens.width / 2,
       lens.y + lens.height / 2,
@@ -331,6 +1439,7 @@ function drawShape(
     roundedRect(ctx, lens.x, lens.y, lens.width, lens.height, r);
   }
   ctx.closePath();
+  ctx.restore();
 }
 
 function roundedRect(
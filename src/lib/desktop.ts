@@ -0,0 +1,37 @@
+// Bridge to the Electron shell, exposed by electron/preload.js. It is absent
+// in a normal browser, where the app falls back to file inputs and downloads.
+
+export type DesktopFile = { path: string; name: string; data: Uint8Array };
+
+// Commands from the native File menu that the page carries out.
+export type MenuCommand = "save" | "save-as" | "export";
+
+export type SaveDialogOptions = {
+  defaultPath: string;
+  filters: { name: string; extensions: string[] }[];
+};
+
+export type DesktopBridge = {
+  // Absolute path of a File picked or dropped in the window ("" if none).
+  getPathForFile: (file: File) => string;
+  // Resolves to the chosen path, or null when the dialog is cancelled.
+  showSaveDialog: (options: SaveDialogOptions) => Promise<string | null>;
+  // Only paths the user opened or chose in a save dialog can be written.
+  writeFile: (path: string, data: Uint8Array) => Promise<void>;
+  // Lists a file under Recent Files; it does not make the path writable.
+  addRecentFile: (path: string) => void;
+  // Files opened from the menu, Recent Files, the command line or a second
+  // launch. Each returns an unsubscribe function.
+  onOpenFile: (listener: (file: DesktopFile) => void) => () => void;
+  onMenuCommand: (listener: (command: MenuCommand) => void) => () => void;
+};
+
+declare global {
+  interface Window {
+    pixelBlur?: DesktopBridge;
+  }
+}
+
+export function getDesktopBridge(): DesktopBridge | null {
+  return typeof window === "undefined" ? null : (window.pixelBlur ?? null);
+}
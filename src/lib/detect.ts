@@ -0,0 +1,198 @@
+import type { Bbox, Word } from "tesseract.js";
+
+// Offline detector for likely-sensitive regions. Text is read with the
+// tesseract.js WASM engine (assets served by /api/ocr); faces use the
+// browser's Shape Detection API when it is available.
+
+export type DetectionKind = "email" | "ip" | "apiKey" | "card" | "face";
+
+// Detection boxes are in image coordinates.
+export type Detection = {
+  id: string;
+  kind: DetectionKind;
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export const detectionLabels: Record<DetectionKind, string> = {
+  email: "Email",
+  ip: "IP address",
+  apiKey: "API key",
+  card: "Card number",
+  face: "Face",
+};
+
+const EMAIL_RE = /^[\w.+-]+@[\w-]+(\.[\w-]+)+$/;
+const IPV4_RE = /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}(:\d{1,5})?$/;
+const IPV6_RE = /^(?=.*::|(?:.*:){7})[0-9a-f:]{6,39}$/i;
+const KNOWN_KEY_RE =
+  /^(sk-[\w-]{16,}|sk_(live|test)_\w{16,}|AKIA[0-9A-Z]{16}|gh[pousr]_\w{30,}|xox[abpr]-[\w-]{10,}|AIza[\w-]{35}|eyJ[\w-]{10,}\.[\w-]{10,}\.[\w-]+)$/;
+const TRIM_RE = /^[("'<[{]+|[)"'>\]},;:.!?]+$/g;
+
+// detectSensitiveRegions scans the image for text and faces. `facesChecked`
+// is false when face detection is unavailable, so only text was scanned.
+export async function detectSensitiveRegions(
+  image: HTMLImageElement,
+  onProgress?: (status: string) => void,
+): Promise<{ detections: Detection[]; facesChecked: boolean }> {
+  const [textDetections, faceDetections] = await Promise.all([
+    detectText(image, onProgress),
+    detectFaces(image),
+  ]);
+  return {
+    detections: [...textDetections, ...(faceDetections ?? [])],
+    facesChecked: faceDetections !== null,
+  };
+}
+
+async function detectText(
+  image: HTMLImageElement,
+  onProgress?: (status: string) => void,
+): Promise<Detection[]> {
+  const { createWorker } = await import("tesseract.js");
+  const base = `${window.location.origin}/api/ocr`;
+  const worker = await createWorker("eng", 1, {
+    workerPath: `${base}/worker/worker.min.js`,
+    corePath: `${base}/core`,
+    langPath: `${base}/lang`,
+    logger: (message) => {
+      onProgress?.(`${message.status} ${Math.round(message.progress * 100)}%`);
+    },
+  });
+
+  try {
+    const { data } = await worker.recognize(image, {}, { blocks: true });
+    const lines = (data.blocks ?? []).flatMap((block) =>
+      block.paragraphs.flatMap((paragraph) => paragraph.lines),
+    );
+    return lines.flatMap((line) => classifyLine(line.words));
+  } finally {
+    await worker.terminate();
+  }
+}
+
+// classifyLine checks single words for emails, IPs and keys, and runs of
+// digit groups for card numbers (which OCR splits on spaces).
+function classifyLine(words: Word[]): Detection[] {
+  const found: Detection[] = [];
+  const cardRun: Word[] = [];
+
+  const flushCard = () => {
+    for (let start = 0; start < cardRun.length; start++) {
+      for (let end = cardRun.length; end > start; end--) {
+        const digits = cardRun
+          .slice(start, end)
+          .map((w) => w.text.replace(/\D/g, ""))
+          .join("");
+        if (digits.length >= 13 && digits.length <= 19 && passesLuhn(digits)) {
+          found.push(toDetection("card", cardRun.slice(start, end)));
+          start = end - 1;
+          break;
+        }
+      }
+    }
+    cardRun.length = 0;
+  };
+
+  words.forEach((word) => {
+    const text = word.text.replace(TRIM_RE, "");
+    if (/^[\d-]{2,19}$/.test(text)) {
+      cardRun.push(word);
+      return;
+    }
+    flushCard();
+
+    if (EMAIL_RE.test(text)) {
+      found.push(toDetection("email", [word]));
+    } else if (IPV4_RE.test(text) || IPV6_RE.test(text)) {
+      found.push(toDetection("ip", [word]));
+    } else if (KNOWN_KEY_RE.test(text) || looksLikeSecret(text)) {
+      found.push(toDetection("apiKey", [word]));
+    }
+  });
+  flushCard();
+  return found;
+}
+
+// looksLikeSecret flags long tokens that mix letters and digits with enough
+// entropy that they are unlikely to be words.
+function looksLikeSecret(text: string) {
+  if (text.length < 24 || !/^[\w\-+/=]+$/.test(text)) return false;
+  if (!/\d/.test(text) || !/[a-z]/i.test(text)) return false;
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  counts.forEach((count) => {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  });
+  return entropy >= 3.5;
+}
+
+function passesLuhn(digits: string) {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function toDetection(kind: DetectionKind, words: Word[]): Detection {
+  const box = words.map((w) => w.bbox).reduce(unionBox);
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    text: words.map((w) => w.text).join(" "),
+    x: box.x0,
+    y: box.y0,
+    width: box.x1 - box.x0,
+    height: box.y1 - box.y0,
+  };
+}
+
+function unionBox(a: Bbox, b: Bbox): Bbox {
+  return {
+    x0: Math.min(a.x0, b.x0),
+    y0: Math.min(a.y0, b.y0),
+    x1: Math.max(a.x1, b.x1),
+    y1: Math.max(a.y1, b.y1),
+  };
+}
+
+type FaceDetectorLike = {
+  detect: (image: ImageBitmapSource) => Promise<{ boundingBox: DOMRectReadOnly }[]>;
+};
+
+// Face detection relies on the built-in FaceDetector (Chromium). It returns
+// null where that is missing or has no backend on this platform.
+async function detectFaces(image: HTMLImageElement): Promise<Detection[] | null> {
+  const FaceDetector = (
+    window as unknown as {
+      FaceDetector?: new (options?: { fastMode?: boolean }) => FaceDetectorLike;
+    }
+  ).FaceDetector;
+  if (!FaceDetector) return null;
+  try {
+    const faces = await new FaceDetector({ fastMode: false }).detect(image);
+    return faces.map(({ boundingBox }) => ({
+      id: crypto.randomUUID(),
+      kind: "face" as const,
+      text: "",
+      x: boundingBox.x,
+      y: boundingBox.y,
+      width: boundingBox.width,
+      height: boundingBox.height,
+    }));
+  } catch (error) {
+    console.error("Face detection failed:", error);
+    return null;
+  }
+}
@@ -0,0 +1,171 @@
+import { RasterFormat, stripMetadata } from "./metadata";
+
+// Encoders for the export dialog. Raster formats come straight from the
+// canvas; SVG and PDF wrap an encoded PNG/JPEG so no extra libraries are
+// needed.
+
+export type ExportFormat = "png" | "jpeg" | "webp" | "svg" | "pdf";
+
+export type ExportOptions = {
+  format: ExportFormat;
+  // 0-1, used by JPEG, WebP and PDF (which embeds a JPEG).
+  quality: number;
+  scale: number;
+  filename: string;
+  stripMetadata: boolean;
+};
+
+export const exportFormats: Record<
+  ExportFormat,
+  { label: string; extension: string; mime: string; lossy: boolean }
+> = {
+  png: { label: "PNG", extension: "png", mime: "image/png", lossy: false },
+  jpeg: { label: "JPEG", extension: "jpg", mime: "image/jpeg", lossy: true },
+  webp: { label: "WebP", extension: "webp", mime: "image/webp", lossy: true },
+  svg: { label: "SVG (embedded PNG)", extension: "svg", mime: "image/svg+xml", lossy: false },
+  pdf: { label: "PDF", extension: "pdf", mime: "application/pdf", lossy: true },
+};
+
+export const EXPORT_SCALES = [0.5, 1, 2, 3, 4];
+
+// Browsers will not create or encode canvases beyond these limits (Chromium
+// and Firefox: 32767px per side, 16384² pixels in total).
+const MAX_CANVAS_SIDE = 32767;
+const MAX_CANVAS_AREA = 16384 * 16384;
+
+// scaledExportSize is the output size of a 1x `base` size at `scale`.
+export function scaledExportSize(base: { width: number; height: number }, scale: number) {
+  return {
+    width: Math.max(1, Math.round(base.width * scale)),
+    height: Math.max(1, Math.round(base.height * scale)),
+  };
+}
+
+// exportFits reports whether the canvas for an export can be created at all.
+export function exportFits({ width, height }: { width: number; height: number }) {
+  return (
+    width <= MAX_CANVAS_SIDE && height <= MAX_CANVAS_SIDE && width * height <= MAX_CANVAS_AREA
+  );
+}
+
+// exportFilename swaps whatever extension the user typed for the format's.
+export function exportFilename(name: string, format: ExportFormat) {
+  const base = name.trim().replace(/\.[a-z0-9]+$/i, "") || "pixel-blur";
+  return `${base}.${exportFormats[format].extension}`;
+}
+
+// formatFromFilename picks the export format from a file extension.
+export function formatFromFilename(name: string): ExportFormat | null {
+  const extension = name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (extension === "jpeg") return "jpeg";
+  const entry = Object.entries(exportFormats).find(([, f]) => f.extension === extension);
+  return entry ? (entry[0] as ExportFormat) : null;
+}
+
+export async function encodeExport(canvas: HTMLCanvasElement, options: ExportOptions) {
+  const { format, quality } = options;
+  switch (format) {
+    case "png":
+    case "jpeg":
+    case "webp": {
+      const bytes = await encodeRaster(canvas, format, quality, options.stripMetadata);
+      return new Blob([bytes], { type: exportFormats[format].mime });
+    }
+    case "svg": {
+      const bytes = await encodeRaster(canvas, "png", 1, options.stripMetadata);
+      return new Blob([wrapSvg(bytes, canvas.width, canvas.height)], {
+        type: exportFormats.svg.mime,
+      });
+    }
+    case "pdf": {
+      const bytes = await encodeRaster(canvas, "jpeg", quality, options.stripMetadata);
+      return new Blob([wrapPdf(bytes, canvas.width, canvas.height)], {
+        type: exportFormats.pdf.mime,
+      });
+    }
+  }
+}
+
+async function encodeRaster(
+  canvas: HTMLCanvasElement,
+  format: RasterFormat,
+  quality: number,
+  strip: boolean,
+) {
+  const mime = exportFormats[format].mime;
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, mime, quality),
+  );
+  // Browsers fall back to PNG for types they cannot encode.
+  if (!blob || blob.type !== mime) {
+    throw new Error(`${exportFormats[format].label} export is not supported by this browser.`);
+  }
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return strip ? stripMetadata(bytes, format) : bytes;
+}
+
+function wrapSvg(png: Uint8Array, width: number, height: number) {
+  let binary = "";
+  for (let i = 0; i < png.length; i += 0x8000) {
+    binary += String.fromCharCode(...png.subarray(i, i + 0x8000));
+  }
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<image width="${width}" height="${height}" href="data:image/png;base64,${btoa(binary)}"/>`,
+    `</svg>`,
+  ].join("\n");
+}
+
+// wrapPdf builds a single-page PDF showing the JPEG at 96 dpi. JPEG data can
+// be embedded as-is through the DCTDecode filter.
+function wrapPdf(jpeg: Uint8Array, width: number, height: number) {
+  const pageWidth = round((width * 72) / 96);
+  const pageHeight = round((height * 72) / 96);
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const object = (body: string) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n${body}\nendobj\n`);
+  };
+
+  write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+  object("<< /Type /Catalog /Pages 2 0 R >>");
+  object("<< /Type /Pages /Kids [3 0 R] /Count 1 >>");
+  object(
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      `/Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R >>`,
+  );
+  object(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  offsets.push(length);
+  write(
+    `5 0 obj\n<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+  );
+  write(jpeg);
+  write("\nendstream\nendobj\n");
+
+  const xref = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => write(`${String(offset).padStart(10, "0")} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const out = new Uint8Array(length);
+  let cursor = 0;
+  parts.forEach((part) => {
+    out.set(part, cursor);
+    cursor += part.length;
+  });
+  return out;
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,79 @@
+// Text overlay fonts. Bundled fonts come from /api/fonts (every TTF/OTF in
+// assets/fonts); users can add their own for the session. Both are registered
+// with the FontFace API so canvas text can use them by family name.
+
+export const DEFAULT_FONT = "Terminus";
+
+type FontSource = { name: string; dataUrl: string };
+
+// parseFontName turns a file name like "TerminusTTF-Bold-Italic-4.49.3" into
+// a family plus the weight/style that file provides.
+export function parseFontName(name: string) {
+  const tokens = name
+    .replace(/\.(ttf|otf|woff2?)$/i, "")
+    .split(/[-_ ]+/)
+    .filter((token) => token && !/^v?\d+(\.\d+)*$/.test(token));
+  let weight = "400";
+  let style = "normal";
+  const familyTokens = tokens.filter((token) => {
+    const lower = token.toLowerCase();
+    if (lower === "bold" || lower === "bolditalic") weight = "700";
+    if (lower === "italic" || lower === "bolditalic" || lower === "oblique") style = "italic";
+    return !["bold", "italic", "bolditalic", "oblique", "regular"].includes(lower);
+  });
+  const family = (familyTokens.join(" ") || name).replace(/(TTF|OTF)$/, "").trim();
+  return { family: family || name, weight, style };
+}
+
+// fontString builds a canvas font with the bundled font as fallback.
+export function fontString(
+  size: number,
+  family: string,
+  { bold = false, italic = false }: { bold?: boolean; italic?: boolean } = {},
+) {
+  const safeFamily = family.includes(" ") ? `'${family}'` : family;
+  const prefix = `${italic ? "italic " : ""}${bold ? "bold " : ""}`;
+  return `${prefix}${size}px ${safeFamily}, ${DEFAULT_FONT}, monospace`;
+}
+
+async function registerFont(
+  family: string,
+  source: string | ArrayBuffer,
+  descriptors: FontFaceDescriptors,
+) {
+  const face = new FontFace(
+    family,
+    typeof source === "string" ? `url(${source})` : source,
+    descriptors,
+  );
+  await face.load();
+  document.fonts.add(face);
+}
+
+// loadBundledFonts registers every font served by /api/fonts and returns the
+// family names. Files that fail to load are skipped.
+export async function loadBundledFonts(): Promise<string[]> {
+  const response = await fetch("/api/fonts");
+  if (!response.ok) throw new Error(`Font list request failed (${response.status}).`);
+  const { fonts } = (await response.json()) as { fonts: FontSource[] };
+  const families = await Promise.all(
+    fonts.map(async (font) => {
+      const { family, weight, style } = parseFontName(font.name);
+      try {
+        await registerFont(family, font.dataUrl, { weight, style });
+        return family;
+      } catch (error) {
+        console.error(`Failed to load font ${font.name}:`, error);
+        return null;
+      }
+    }),
+  );
+  return Array.from(new Set(families.filter((f): f is string => Boolean(f))));
+}
+
+// loadUploadedFont registers a user font file for this session only.
+export async function loadUploadedFont(file: File) {
+  const { family, weight, style } = parseFontName(file.name);
+  await registerFont(family, await file.arrayBuffer(), { weight, style });
+  return family;
+}
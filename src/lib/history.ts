@@ -0,0 +1,64 @@
+import { Annotation, BrushStroke, Lens, Sticker, TextOverlay } from "./types";
+
+// Linear undo/redo history. Each entry is the full overlay state *after* the
+// labelled action; `index` points at the entry currently shown.
+export const MAX_HISTORY = 50;
+
+export type HistorySnapshot = {
+  lenses: Lens[];
+  stickers: Sticker[];
+  texts: TextOverlay[];
+  annotations: Annotation[];
+  strokes: BrushStroke[];
+};
+
+export type HistoryEntry = HistorySnapshot & {
+  id: number;
+  label: string;
+};
+
+export type HistoryState = {
+  entries: HistoryEntry[];
+  index: number;
+};
+
+let nextEntryId = 0;
+
+export function createHistory(label: string, snapshot: HistorySnapshot): HistoryState {
+  return { entries: [{ ...snapshot, id: nextEntryId++, label }], index: 0 };
+}
+
+// pushHistory drops any redo branch and appends the new state. When `merge` is
+// set the current entry is replaced instead, so a drag becomes one step.
+export function pushHistory(
+  history: HistoryState,
+  label: string,
+  snapshot: HistorySnapshot,
+  merge = false,
+): HistoryState {
+  const current = history.entries[history.index];
+  if (merge && current && history.index > 0) {
+    const entries = history.entries.slice(0, history.index);
+    entries.push({ ...current, ...snapshot });
+    return { entries, index: history.index };
+  }
+  const entries = history.entries.slice(0, history.index + 1);
+  entries.push({ ...snapshot, id: nextEntryId++, label });
+  const trimmed = entries.slice(-MAX_HISTORY);
+  return { entries: trimmed, index: trimmed.length - 1 };
+}
+
+export function canUndo(history: HistoryState) {
+  return history.index > 0;
+}
+
+export function canRedo(history: HistoryState) {
+  return history.index < history.entries.length - 1;
+}
+
+// hasChanges reports whether applying `payload` would alter `item`.
+export function hasChanges<T extends object>(item: T, payload: Partial<T>) {
+  return (Object.keys(payload) as (keyof T)[]).some(
+    (key) => payload[key] !== item[key],
+  );
+}
@@ -0,0 +1,235 @@
+import { annotationLabels, nextStepNumber, translateAnnotation } from "./annotations";
+import { HistorySnapshot } from "./history";
+import { OverlayKind, Selection } from "./types";
+
+// Helpers for the shared stacking order of lenses, stickers, text and
+// annotations. Every
+// overlay carries a `z`; higher values paint (and hit-test) on top.
+
+// Brush strokes are not stacked overlays, so these helpers leave them out.
+type Overlays = Omit<HistorySnapshot, "strokes">;
+
+type LayerItem = { kind: OverlayKind; id: string; z: number };
+
+export function listLayers(snapshot: Overlays): LayerItem[] {
+  return [
+    ...snapshot.lenses.map((l) => ({ kind: "lens" as const, id: l.id, z: l.z })),
+    ...snapshot.stickers.map((s) => ({ kind: "sticker" as const, id: s.id, z: s.z })),
+    ...snapshot.texts.map((t) => ({ kind: "text" as const, id: t.id, z: t.z })),
+    ...snapshot.annotations.map((a) => ({ kind: "annotation" as const, id: a.id, z: a.z })),
+  ].sort((a, b) => a.z - b.z);
+}
+
+export function nextZ(snapshot: Overlays) {
+  return listLayers(snapshot).reduce((max, layer) => Math.max(max, layer.z + 1), 0);
+}
+
+export function findOverlay(snapshot: Overlays, selection: Selection) {
+  switch (selection.kind) {
+    case "lens":
+      return snapshot.lenses.find((l) => l.id === selection.id);
+    case "sticker":
+      return snapshot.stickers.find((s) => s.id === selection.id);
+    case "text":
+      return snapshot.texts.find((t) => t.id === selection.id);
+    case "annotation":
+      return snapshot.annotations.find((a) => a.id === selection.id);
+  }
+}
+
+export function describeOverlay(snapshot: Overlays, selection: Selection) {
+  if (selection.kind === "lens") {
+    const lens = snapshot.lenses.find((l) => l.id === selection.id);
+    return `${lens?.mode ?? "blur"} lens`;
+  }
+  if (selection.kind === "annotation") {
+    const annotation = snapshot.annotations.find((a) => a.id === selection.id);
+    return annotation ? annotationLabels[annotation.mode] : "annotation";
+  }
+  return selection.kind;
+}
+
+function updateOverlay(
+  snapshot: Overlays,
+  selection: Selection,
+  payload: { z?: number; x?: number; y?: number },
+): Overlays {
+  const apply = <T extends { id: string }>(items: T[]) =>
+    items.map((item) => (item.id === selection.id ? { ...item, ...payload } : item));
+  switch (selection.kind) {
+    case "lens":
+      return { ...snapshot, lenses: apply(snapshot.lenses) };
+    case "sticker":
+      return { ...snapshot, stickers: apply(snapshot.stickers) };
+    case "text":
+      return { ...snapshot, texts: apply(snapshot.texts) };
+    case "annotation":
+      return { ...snapshot, annotations: apply(snapshot.annotations) };
+  }
+}
+
+// restack swaps the selection with its neighbour one step up (1) or down (-1).
+// Returns null when the overlay is already at that end of the stack.
+export function restack(
+  snapshot: Overlays,
+  selection: Selection,
+  direction: 1 | -1,
+): Overlays | null {
+  const layers = listLayers(snapshot);
+  const index = layers.findIndex(
+    (layer) => layer.kind === selection.kind && layer.id === selection.id,
+  );
+  const neighbour = layers[index + direction];
+  if (index === -1 || !neighbour) return null;
+  const current = layers[index];
+  // Distinct values keep the swap meaningful even if two layers share a z.
+  const currentZ =
+    direction === 1
+      ? Math.max(neighbour.z, current.z + 1)
+      : Math.min(neighbour.z, current.z - 1);
+  const swapped = updateOverlay(snapshot, selection, { z: currentZ });
+  return updateOverlay(swapped, neighbour, { z: current.z });
+}
+
+export function removeOverlay(
+  snapshot: Overlays,
+  selection: Selection,
+): Overlays {
+  const keep = <T extends { id: string }>(items: T[]) =>
+    items.filter((item) => item.id !== selection.id);
+  switch (selection.kind) {
+    case "lens":
+      return { ...snapshot, lenses: keep(snapshot.lenses) };
+    case "sticker":
+      return { ...snapshot, stickers: keep(snapshot.stickers) };
+    case "text":
+      return { ...snapshot, texts: keep(snapshot.texts) };
+    case "annotation":
+      return { ...snapshot, annotations: keep(snapshot.annotations) };
+  }
+}
+
+// duplicateOverlay copies the selection on top of the stack, nudged by
+// `offset` display pixels, and returns the copy's selection. `imageScale` is
+// display pixels per image pixel, for outlines kept in image coordinates.
+export function duplicateOverlay(
+  snapshot: Overlays,
+  selection: Selection,
+  offset: number,
+  imageScale: number,
+): { snapshot: Overlays; selection: Selection } | null {
+  const id = crypto.randomUUID();
+  const z = nextZ(snapshot);
+  const copy = { kind: selection.kind, id };
+  switch (selection.kind) {
+    case "lens": {
+      const lens = snapshot.lenses.find((l) => l.id === selection.id);
+      if (!lens) return null;
+      const duplicate = {
+        ...lens,
+        id,
+        z,
+        x: lens.x + offset,
+        y: lens.y + offset,
+        sourceX: lens.sourceX + offset,
+        sourceY: lens.sourceY + offset,
+        ...(lens.imagePoints && {
+          imagePoints: translatePoints(
+            lens.imagePoints,
+            offset / imageScale,
+            offset / imageScale,
+          ),
+        }),
+        createdAt: Date.now(),
+      };
+      return {
+        snapshot: { ...snapshot, lenses: [...snapshot.lenses, duplicate] },
+        selection: copy,
+      };
+    }
+    case "sticker": {
+      const sticker = snapshot.stickers.find((s) => s.id === selection.id);
+      if (!sticker) return null;
+      const duplicate = {
+        ...sticker,
+        id,
+        z,
+        x: sticker.x + offset,
+        y: sticker.y + offset,
+      };
+      return {
+        snapshot: { ...snapshot, stickers: [...snapshot.stickers, duplicate] },
+        selection: copy,
+      };
+    }
+    case "text": {
+      const text = snapshot.texts.find((t) => t.id === selection.id);
+      if (!text) return null;
+      const duplicate = { ...text, id, z, x: text.x + offset, y: text.y + offset };
+      return {
+        snapshot: { ...snapshot, texts: [...snapshot.texts, duplicate] },
+        selection: copy,
+      };
+    }
+    case "annotation": {
+      const annotation = snapshot.annotations.find((a) => a.id === selection.id);
+      if (!annotation) return null;
+      const moved = translateAnnotation(annotation, offset, offset);
+      // A copied step marker continues the numbering.
+      const duplicate =
+        moved.mode === "step"
+          ? { ...moved, id, z, number: nextStepNumber(snapshot.annotations) }
+          : { ...moved, id, z };
+      return {
+        snapshot: { ...snapshot, annotations: [...snapshot.annotations, duplicate] },
+        selection: copy,
+      };
+    }
+  }
+}
+
+// translateOverlay moves the selection by dx/dy display pixels, the same way
+// dragging it does. `imageScale` is display pixels per image pixel.
+export function translateOverlay(
+  snapshot: Overlays,
+  selection: Selection,
+  dx: number,
+  dy: number,
+  imageScale: number,
+): Overlays {
+  const move = <T extends { id: string; x: number; y: number }>(
+    items: T[],
+    extra: (item: T) => Partial<T> = () => ({}),
+  ) =>
+    items.map((item) =>
+      item.id === selection.id ? { ...item, x: item.x + dx, y: item.y + dy, ...extra(item) } : item,
+    );
+  switch (selection.kind) {
+    case "lens":
+      return {
+        ...snapshot,
+        lenses: move(snapshot.lenses, (lens) => ({
+          sourceX: lens.sourceX + dx,
+          sourceY: lens.sourceY + dy,
+          ...(lens.imagePoints && {
+            imagePoints: translatePoints(lens.imagePoints, dx / imageScale, dy / imageScale),
+          }),
+        })),
+      };
+    case "sticker":
+      return { ...snapshot, stickers: move(snapshot.stickers) };
+    case "text":
+      return { ...snapshot, texts: move(snapshot.texts) };
+    case "annotation":
+      return {
+        ...snapshot,
+        annotations: snapshot.annotations.map((annotation) =>
+          annotation.id === selection.id ? translateAnnotation(annotation, dx, dy) : annotation,
+        ),
+      };
+  }
+}
+
+function translatePoints(points: { x: number; y: number }[], dx: number, dy: number) {
+  return points.map((p) => ({ x: p.x + dx, y: p.y + dy }));
+}
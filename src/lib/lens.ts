@@ -0,0 +1,58 @@
+import { Lens, LensEffect, MagnifierConnector, MagnifierStyle, SceneTransform } from "./types";
+
+// Per-lens settings: edge and strength of redaction lenses, and magnifier
+// styling. New lenses take them from the panel; a selected lens is edited in
+// place.
+
+export const MAX_MAGNIFICATION = 16;
+
+// How close (in canvas pixels) a press must land to a magnifier's source point
+// to drag it.
+export const SOURCE_HANDLE_REACH = 9;
+
+export const defaultLensEffect: LensEffect = {
+  feather: 0,
+  opacity: 1,
+};
+
+// pickLensEffect copies just the effect fields off a lens.
+export function pickLensEffect(lens: LensEffect): LensEffect {
+  return { feather: lens.feather, opacity: lens.opacity };
+}
+
+// The default matches the original look: white beam and glass sheen, no
+// border or shadow.
+export const defaultMagnifierStyle: MagnifierStyle = {
+  borderColor: "#ffffff",
+  borderWidth: 0,
+  shadow: false,
+  connector: "beam",
+  sheen: true,
+  pixelated: false,
+};
+
+export const magnifierConnectors: MagnifierConnector[] = ["beam", "line", "frame"];
+
+// pickMagnifierStyle copies just the magnifier style fields off a lens.
+export function pickMagnifierStyle(lens: MagnifierStyle): MagnifierStyle {
+  return {
+    borderColor: lens.borderColor,
+    borderWidth: lens.borderWidth,
+    shadow: lens.shadow,
+    connector: lens.connector,
+    sheen: lens.sheen,
+    pixelated: lens.pixelated,
+  };
+}
+
+// magnifierSource is the display-space point a magnifier zooms into; `t` is
+// the display -> image mapping.
+export function magnifierSource(
+  lens: Pick<Lens, "sourceImageX" | "sourceImageY">,
+  t: SceneTransform,
+) {
+  return {
+    x: t.offsetX + lens.sourceImageX * t.scale,
+    y: t.offsetY + lens.sourceImageY * t.scale,
+  };
+}
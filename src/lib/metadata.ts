@@ -0,0 +1,128 @@
+// Byte-level metadata handling for exported files. Canvas encoders do not copy
+// EXIF from the source image, but exports are still scanned and scrubbed so
+// no EXIF/GPS, XMP, IPTC or text chunks can leave the app.
+
+export type RasterFormat = "png" | "jpeg" | "webp";
+
+const PNG_METADATA_CHUNKS = new Set(["tEXt", "zTXt", "iTXt", "eXIf", "tIME"]);
+const WEBP_METADATA_CHUNKS = new Set(["EXIF", "XMP "]);
+
+type Block = { start: number; end: number; name: string; metadata: boolean };
+
+// listMetadata names every metadata block found in the file.
+export function listMetadata(bytes: Uint8Array, format: RasterFormat) {
+  return readBlocks(bytes, format)
+    .filter((block) => block.metadata)
+    .map((block) => block.name);
+}
+
+// stripMetadata removes metadata blocks and verifies the result is clean.
+export function stripMetadata(bytes: Uint8Array, format: RasterFormat) {
+  const blocks = readBlocks(bytes, format);
+  const kept: Uint8Array[] = [];
+  let cursor = 0;
+  blocks
+    .filter((block) => block.metadata)
+    .forEach((block) => {
+      kept.push(bytes.subarray(cursor, block.start));
+      cursor = block.end;
+    });
+  kept.push(bytes.subarray(cursor));
+  const stripped = concat(kept);
+  if (format === "webp") fixWebpHeader(stripped);
+
+  const remaining = listMetadata(stripped, format);
+  if (remaining.length > 0) {
+    throw new Error(`Metadata survived stripping: ${remaining.join(", ")}`);
+  }
+  return stripped;
+}
+
+function readBlocks(bytes: Uint8Array, format: RasterFormat): Block[] {
+  switch (format) {
+    case "jpeg":
+      return readJpeg(bytes);
+    case "png":
+      return readPng(bytes);
+    case "webp":
+      return readWebp(bytes);
+  }
+}
+
+// JPEG: walk marker segments up to start-of-scan. APP0 (JFIF), ICC profiles
+// in APP2 and APP14 (Adobe colour transform) are needed to decode correctly;
+// every other APPn segment and comments are metadata.
+function readJpeg(bytes: Uint8Array): Block[] {
+  const blocks: Block[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    const isApp = marker >= 0xe0 && marker <= 0xef;
+    const isIcc = marker === 0xe2 && readAscii(bytes, offset + 4, 11) === "ICC_PROFILE";
+    const metadata =
+      marker === 0xfe || (isApp && marker !== 0xe0 && marker !== 0xee && !isIcc);
+    blocks.push({
+      start: offset,
+      end,
+      name: marker === 0xfe ? "COM" : `APP${marker - 0xe0}`,
+      metadata,
+    });
+    offset = end;
+  }
+  return blocks;
+}
+
+function readPng(bytes: Uint8Array): Block[] {
+  const blocks: Block[] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    blocks.push({ start: offset, end, name: type, metadata: PNG_METADATA_CHUNKS.has(type) });
+    if (type === "IEND") break;
+    offset = end;
+  }
+  return blocks;
+}
+
+function readWebp(bytes: Uint8Array): Block[] {
+  const blocks: Block[] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = readAscii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    blocks.push({ start: offset, end, name: type, metadata: WEBP_METADATA_CHUNKS.has(type) });
+    offset = end;
+  }
+  return blocks;
+}
+
+// fixWebpHeader rewrites the RIFF size and clears the EXIF/XMP flags in VP8X.
+function fixWebpHeader(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  view.setUint32(4, bytes.length - 8, true);
+  if (readAscii(bytes, 12, 4) === "VP8X") {
+    bytes[20] &= ~(0x08 | 0x04);
+  }
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number) {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+}
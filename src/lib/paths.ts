@@ -0,0 +1,79 @@
+import { BoxShape, LensShape, Mode, SceneTransform } from "./types";
+
+// Geometry for path-shaped (lasso/polygon) lenses. A path lens keeps its
+// outline in image coordinates, like sourceImageX/Y, and its x/y/width/height
+// as the display-space bounding box of that outline.
+
+type Point = { x: number; y: number };
+type Box = { x: number; y: number; width: number; height: number };
+
+// Modes that can draw a lasso/polygon region.
+export const PATH_MODES: Mode[] = ["blur", "pixelate", "fill", "noise"];
+
+// Clicking within this many canvas pixels of the first vertex closes a polygon.
+export const PATH_CLOSE_DISTANCE = 10;
+// Grab distance for vertex handles, in canvas pixels.
+export const VERTEX_HANDLE_REACH = 7;
+
+// boxShape is the shape to use where an outline cannot apply (stickers,
+// magnifiers, detector boxes).
+export function boxShape(shape: LensShape): BoxShape {
+  return shape === "path" ? "rounded" : shape;
+}
+
+export function pathBounds(points: Point[]): Box {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// isPathUsable rejects outlines too small or thin to redact anything.
+export function isPathUsable(points: Point[]) {
+  if (points.length < 3) return false;
+  const { width, height } = pathBounds(points);
+  return width >= 8 && height >= 8;
+}
+
+// extendPath appends a freehand point, skipping jitter so strokes stay light.
+export function extendPath(points: Point[], point: Point) {
+  const last = points[points.length - 1];
+  if (last && Math.hypot(point.x - last.x, point.y - last.y) < 3) return points;
+  return [...points, point];
+}
+
+// pointInPolygon uses the even-odd rule, matching how the path is filled.
+export function pointInPolygon(points: Point[], point: Point) {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// toImagePoints and toDisplayPoints convert with a display -> image transform.
+export function toImagePoints(points: Point[], t: SceneTransform): Point[] {
+  return points.map((p) => ({ x: (p.x - t.offsetX) / t.scale, y: (p.y - t.offsetY) / t.scale }));
+}
+
+export function toDisplayPoints(points: Point[], t: SceneTransform): Point[] {
+  return points.map((p) => ({ x: t.offsetX + p.x * t.scale, y: t.offsetY + p.y * t.scale }));
+}
+
+// scalePath maps points from box `from` onto box `to` (same coordinate space).
+export function scalePath(points: Point[], from: Box, to: Box): Point[] {
+  const sx = from.width ? to.width / from.width : 1;
+  const sy = from.height ? to.height / from.height : 1;
+  return points.map((p) => ({
+    x: to.x + (p.x - from.x) * sx,
+    y: to.y + (p.y - from.y) * sy,
+  }));
+}
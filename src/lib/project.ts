@@ -0,0 +1,358 @@
+import { annotationModes, defaultAnnotationStyles } from "./annotations";
+import { defaultBrushSettings } from "./brush";
+import { DEFAULT_FONT } from "./fonts";
+import { defaultLensEffect, defaultMagnifierStyle, magnifierConnectors } from "./lens";
+import { defaultSnapSettings } from "./snap";
+import { defaultStickerStyle, stickerShapes } from "./stickers";
+import { defaultTextStyle, textAligns } from "./text";
+import {
+  Annotation,
+  AnnotationMode,
+  AnnotationStyle,
+  BrushSettings,
+  BrushStroke,
+  Lens,
+  LensEffect,
+  LensShape,
+  MagnifierStyle,
+  Mode,
+  SnapSettings,
+  Sticker,
+  StickerStyle,
+  TextOverlay,
+  TextStyle,
+} from "./types";
+
+// Editable project bundles (.pixelblur). Overlay geometry is stored in image
+// coordinates so a project reopens correctly at any viewport size.
+export const PROJECT_FORMAT = "pixel-blur";
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = ".pixelblur";
+
+export type ProjectSettings = {
+  mode: Mode;
+  lensShape: LensShape;
+  lensSize: number;
+  blurAmount: number;
+  blockSize: number;
+  fillColor: string;
+  magnification: number;
+  lensEffect: LensEffect;
+  magnifierStyle: MagnifierStyle;
+  stickerStyle: StickerStyle;
+  textValue: string;
+  textColor: string;
+  textSize: number;
+  textStyle: TextStyle;
+  brush: BrushSettings;
+  backgroundMode: "black" | "white" | "image";
+  annotationStyles: Record<AnnotationMode, AnnotationStyle>;
+  snap: SnapSettings;
+};
+
+// Panel settings a project falls back to where its own are missing or
+// unreadable. They match the app's start-up state.
+export const defaultProjectSettings: ProjectSettings = {
+  mode: "blur",
+  lensShape: "circle",
+  lensSize: 320,
+  blurAmount: 12,
+  blockSize: 14,
+  fillColor: "#000000",
+  magnification: 2,
+  lensEffect: defaultLensEffect,
+  magnifierStyle: defaultMagnifierStyle,
+  stickerStyle: defaultStickerStyle,
+  textValue: "Sample text",
+  textColor: "#f5f5f5",
+  textSize: 28,
+  textStyle: defaultTextStyle,
+  brush: defaultBrushSettings,
+  backgroundMode: "image",
+  annotationStyles: defaultAnnotationStyles,
+  snap: defaultSnapSettings,
+};
+
+export type SerializedSticker = Omit<Sticker, "image">;
+
+export type ProjectFile = {
+  format: typeof PROJECT_FORMAT;
+  version: typeof PROJECT_VERSION;
+  image: string; // data URL, empty for blank-canvas projects
+  settings: ProjectSettings;
+  lenses: Lens[];
+  stickers: SerializedSticker[];
+  texts: TextOverlay[];
+  annotations: Annotation[];
+  strokes: BrushStroke[]; // already in image coordinates
+};
+
+export type LoadedProject = Omit<ProjectFile, "stickers"> & {
+  stickers: Sticker[];
+};
+
+export function serializeProject(project: LoadedProject): string {
+  const file: ProjectFile = {
+    ...project,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    stickers: project.stickers.map(({ image, ...sticker }) => sticker),
+  };
+  return JSON.stringify(file);
+}
+
+// parseProject validates a project file and fills in anything it leaves out.
+export function parseProject(raw: string): ProjectFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error("Project file is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== PROJECT_FORMAT) {
+    throw new Error("Not a pixel-blur project file.");
+  }
+  const version = typeof data.version === "number" ? data.version : 0;
+  if (version > PROJECT_VERSION) {
+    throw new Error(
+      `Project version ${version} is newer than this app supports (${PROJECT_VERSION}).`,
+    );
+  }
+  if (version < 1) {
+    throw new Error(`Unknown project version: ${String(data.version)}.`);
+  }
+  return checkProject(data);
+}
+
+// checkProject makes sure a project has the shape the app expects. Missing or
+// unreadable settings and style fields fall back to their defaults; an
+// overlay without usable geometry rejects the whole file, since guessing
+// where a redaction went could leave something uncovered.
+function checkProject(data: Record<string, unknown>): ProjectFile {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    image: typeof data.image === "string" ? data.image : "",
+    settings: checkSettings(data.settings),
+    lenses: readList(data.lenses, "lens", checkLens),
+    stickers: readList(data.stickers, "sticker", checkSticker),
+    texts: readList(data.texts, "text", checkText),
+    annotations: readList(data.annotations, "annotation", checkAnnotation),
+    strokes: readList(data.strokes, "brush stroke", (item, what) =>
+      readFields(item, what, strokeFields),
+    ),
+  };
+}
+
+type Check = (value: unknown) => boolean;
+// A field is [check, fallback]. Without a fallback the field is required and
+// a bad value rejects the file.
+type Fields = Record<string, [Check, unknown?]>;
+
+const isNumber: Check = (value) => typeof value === "number" && Number.isFinite(value);
+const isString: Check = (value) => typeof value === "string";
+const isBoolean: Check = (value) => typeof value === "boolean";
+const isPoints: Check = (value) =>
+  Array.isArray(value) && value.every((p) => isRecord(p) && isNumber(p.x) && isNumber(p.y));
+const oneOf =
+  (values: readonly unknown[]): Check =>
+  (value) =>
+    values.includes(value);
+
+// like builds optional fields from a defaults object: each field must have
+// the same type as its default, and falls back to it.
+function like(defaults: object): Fields {
+  return Object.fromEntries(
+    Object.entries(defaults).map(([key, fallback]) => {
+      const check: Check =
+        typeof fallback === "number" ? isNumber : (value) => typeof value === typeof fallback;
+      return [key, [check, fallback]];
+    }),
+  );
+}
+
+function readFields<T>(value: unknown, what: string, fields: Fields): T {
+  if (!isRecord(value)) throw new Error(`Project file is damaged: ${what} is not an object.`);
+  const result: Record<string, unknown> = { ...value };
+  for (const [key, [check, fallback]] of Object.entries(fields)) {
+    if (check(value[key])) continue;
+    if (fallback === undefined) throw new Error(`Project file is damaged: ${what} has no valid "${key}".`);
+    result[key] = fallback;
+  }
+  return result as T;
+}
+
+function readList<T>(value: unknown, kind: string, read: (item: unknown, what: string) => T): T[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error(`Project file is damaged: expected a list of ${kind} entries.`);
+  return value.map((item, index) => read(item, `${kind} ${index + 1}`));
+}
+
+const lensModes: Mode[] = ["blur", "pixelate", "fill", "noise", "magnify"];
+
+const boxFields: Fields = {
+  id: [isString],
+  x: [isNumber],
+  y: [isNumber],
+  width: [isNumber],
+  height: [isNumber],
+  rotation: [isNumber, 0],
+  z: [isNumber],
+};
+
+function checkSettings(value: unknown): ProjectSettings {
+  const settings = readFields<ProjectSettings>(isRecord(value) ? value : {}, "settings", {
+    ...like(defaultProjectSettings),
+    mode: [oneOf([...lensModes, "brush", "sticker", "text", ...annotationModes]), "blur"],
+    lensShape: [oneOf(["circle", "rounded", "path"]), "circle"],
+    backgroundMode: [oneOf(["black", "white", "image"]), "image"],
+  });
+  const group = <T>(key: keyof ProjectSettings, defaults: T, fields: Fields = {}) =>
+    readFields<T>(isRecord(settings[key]) ? settings[key] : {}, `${key} settings`, {
+      ...like(defaults as object),
+      ...fields,
+    });
+  return {
+    ...settings,
+    lensEffect: group("lensEffect", defaultLensEffect),
+    magnifierStyle: group("magnifierStyle", defaultMagnifierStyle, {
+      connector: [oneOf(magnifierConnectors), defaultMagnifierStyle.connector],
+    }),
+    stickerStyle: group("stickerStyle", defaultStickerStyle, {
+      shape: [oneOf(stickerShapes), defaultStickerStyle.shape],
+    }),
+    textStyle: group("textStyle", defaultTextStyle, {
+      align: [oneOf(textAligns), defaultTextStyle.align],
+    }),
+    brush: group("brush", defaultBrushSettings),
+    snap: group("snap", defaultSnapSettings),
+    annotationStyles: Object.fromEntries(
+      annotationModes.map((mode) => [
+        mode,
+        readFields(
+          isRecord(settings.annotationStyles) && isRecord(settings.annotationStyles[mode])
+            ? settings.annotationStyles[mode]
+            : {},
+          `${mode} style`,
+          like(defaultAnnotationStyles[mode]),
+        ),
+      ]),
+    ) as ProjectSettings["annotationStyles"],
+  };
+}
+
+function checkLens(item: unknown, what: string): Lens {
+  const lens = readFields<Lens>(item, what, {
+    ...boxFields,
+    mode: [oneOf(lensModes)],
+    shape: [oneOf(["circle", "rounded", "path"])],
+    imagePoints: [(value) => value === undefined || isPoints(value)],
+    blur: [isNumber, defaultProjectSettings.blurAmount],
+    blockSize: [isNumber, defaultProjectSettings.blockSize],
+    fillColor: [isString, defaultProjectSettings.fillColor],
+    magnification: [isNumber, defaultProjectSettings.magnification],
+    ...like(defaultLensEffect),
+    ...like(defaultMagnifierStyle),
+    connector: [oneOf(magnifierConnectors), defaultMagnifierStyle.connector],
+    createdAt: [isNumber, 0],
+  });
+  if (lens.shape === "path" && !lens.imagePoints) {
+    throw new Error(`Project file is damaged: ${what} has no outline.`);
+  }
+  // Only magnifiers use their source point, so other lenses may leave it out.
+  // The file is in image space, where sourceX/Y equal sourceImageX/Y.
+  const center = { x: lens.x + lens.width / 2, y: lens.y + lens.height / 2 };
+  const aimed = readFields<Lens>(lens, what, {
+    sourceImageX: [isNumber, lens.mode === "magnify" ? undefined : center.x],
+    sourceImageY: [isNumber, lens.mode === "magnify" ? undefined : center.y],
+  });
+  return readFields<Lens>(aimed, what, {
+    sourceX: [isNumber, aimed.sourceImageX],
+    sourceY: [isNumber, aimed.sourceImageY],
+  });
+}
+
+const isCrop: Check = (value) =>
+  value === null ||
+  (isRecord(value) && [value.x, value.y, value.width, value.height].every(isNumber));
+
+function checkSticker(item: unknown, what: string): SerializedSticker {
+  return readFields<SerializedSticker>(item, what, {
+    ...boxFields,
+    src: [isString],
+    ...like(defaultStickerStyle),
+    shape: [oneOf(stickerShapes), defaultStickerStyle.shape],
+    flipX: [isBoolean, false],
+    flipY: [isBoolean, false],
+    crop: [isCrop, null],
+  });
+}
+
+function checkText(item: unknown, what: string): TextOverlay {
+  return readFields<TextOverlay>(item, what, {
+    id: [isString],
+    x: [isNumber],
+    y: [isNumber],
+    z: [isNumber],
+    text: [isString],
+    color: [isString, defaultProjectSettings.textColor],
+    size: [isNumber, defaultProjectSettings.textSize],
+    font: [isString, DEFAULT_FONT],
+    rotation: [isNumber, 0],
+    ...like(defaultTextStyle),
+    align: [oneOf(textAligns), defaultTextStyle.align],
+  });
+}
+
+const annotationFields: Record<AnnotationMode, Fields> = {
+  arrow: { x1: [isNumber], y1: [isNumber], x2: [isNumber], y2: [isNumber] },
+  rectangle: { x: [isNumber], y: [isNumber], width: [isNumber], height: [isNumber] },
+  highlight: { points: [isPoints] },
+  step: { x: [isNumber], y: [isNumber], radius: [isNumber], number: [isNumber] },
+};
+
+function checkAnnotation(item: unknown, what: string): Annotation {
+  const { mode } = readFields<{ mode: AnnotationMode }>(item, what, {
+    mode: [oneOf(annotationModes)],
+  });
+  return readFields<Annotation>(item, what, {
+    id: [isString],
+    z: [isNumber],
+    ...like(defaultAnnotationStyles[mode]),
+    ...annotationFields[mode],
+  });
+}
+
+const strokeFields: Fields = {
+  id: [isString],
+  points: [isPoints],
+  size: [isNumber],
+  hardness: [isNumber],
+  blur: [isNumber],
+  erase: [isBoolean],
+};
+
+// hydrateProject decodes sticker images so the project can be edited again.
+export async function hydrateProject(project: ProjectFile): Promise<LoadedProject> {
+  const cache = new Map<string, Promise<HTMLImageElement>>();
+  const stickers = await Promise.all(
+    project.stickers.map(async (sticker) => {
+      if (!cache.has(sticker.src)) cache.set(sticker.src, loadImage(sticker.src));
+      const image = await cache.get(sticker.src)!;
+      return { ...sticker, image };
+    }),
+  );
+  return { ...project, stickers };
+}
+
+export function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to decode image."));
+    img.src = src;
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
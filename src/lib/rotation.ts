@@ -0,0 +1,66 @@
+// Rotation helpers for boxes (stickers, text, rectangular lenses). Angles are
+// in degrees, clockwise, and boxes rotate about their centre; x/y/width/height
+// always describe the unrotated box.
+
+type Point = { x: number; y: number };
+type Box = { x: number; y: number; width: number; height: number };
+
+export const ROTATION_SNAP = 15;
+// Distance of the rotation handle above the box, in canvas pixels.
+export const ROTATION_HANDLE_OFFSET = 24;
+export const ROTATION_HANDLE_RADIUS = 6;
+
+export function boxCenter(box: Box): Point {
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+export function rotatePoint(point: Point, center: Point, degrees: number): Point {
+  if (!degrees) return point;
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+}
+
+// toLocalPoint undoes a box's rotation so hit tests can stay axis-aligned.
+export function toLocalPoint(box: Box, rotation: number, point: Point): Point {
+  return rotatePoint(point, boxCenter(box), -rotation);
+}
+
+// rotatedBounds is the axis-aligned box around a rotated box.
+export function rotatedBounds(box: Box, rotation: number): Box {
+  if (!rotation) return { x: box.x, y: box.y, width: box.width, height: box.height };
+  const center = boxCenter(box);
+  const corners = [
+    { x: box.x, y: box.y },
+    { x: box.x + box.width, y: box.y },
+    { x: box.x, y: box.y + box.height },
+    { x: box.x + box.width, y: box.y + box.height },
+  ].map((corner) => rotatePoint(corner, center, rotation));
+  const xs = corners.map((p) => p.x);
+  const ys = corners.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// rotationHandle is where the handle sits: above the top edge, turned with the
+// box. `offset` is in the same units as the box.
+export function rotationHandle(box: Box, rotation: number, offset: number): Point {
+  const center = boxCenter(box);
+  return rotatePoint({ x: center.x, y: box.y - offset }, center, rotation);
+}
+
+// pointerAngle is the clockwise angle of `point` around `center`, 0 = up.
+export function pointerAngle(center: Point, point: Point) {
+  return (Math.atan2(point.x - center.x, center.y - point.y) * 180) / Math.PI;
+}
+
+// normalizeAngle wraps into (-180, 180] and optionally snaps to `step`.
+export function normalizeAngle(degrees: number, step = 0) {
+  const snapped = step ? Math.round(degrees / step) * step : degrees;
+  const wrapped = ((snapped % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+}
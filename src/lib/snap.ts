@@ -0,0 +1,84 @@
+import { SnapSettings } from "./types";
+
+// Smart guides for moving overlays: the edges and centre of the moved box snap
+// to nearby guide lines (canvas centre, image edges, other overlays) and, with
+// the grid on, to grid lines. Everything is in display space.
+
+type Box = { x: number; y: number; width: number; height: number };
+
+// A guide line drawn while snapping: a vertical line at x, or a horizontal
+// line at y.
+export type Guide = { axis: "x" | "y"; value: number };
+
+export type SnapLines = { x: number[]; y: number[] };
+
+// The pixel grid: `step` display pixels, starting at the image's top-left
+// corner and covering the image's box.
+export type SnapGrid = Box & { step: number };
+
+// Snapping reaches this many canvas pixels.
+export const SNAP_DISTANCE = 6;
+
+export const defaultSnapSettings: SnapSettings = {
+  enabled: true,
+  grid: false,
+  gridSize: 10,
+};
+
+// snapLines lists the centre lines of the canvas and the edges and centres
+// of every box in `boxes` (the image and the overlays that stay put).
+export function snapLines(canvas: { width: number; height: number }, boxes: Box[]): SnapLines {
+  return {
+    x: [canvas.width / 2, ...boxes.flatMap((box) => [box.x, box.x + box.width / 2, box.x + box.width])],
+    y: [
+      canvas.height / 2,
+      ...boxes.flatMap((box) => [box.y, box.y + box.height / 2, box.y + box.height]),
+    ],
+  };
+}
+
+// snapBox returns how far to shift `box` so its nearest edge or centre lands
+// on a line within `reach`, per axis, plus the guides it landed on.
+export function snapBox(
+  box: Box,
+  lines: SnapLines,
+  reach: number,
+  grid: SnapGrid | null,
+): { dx: number; dy: number; guides: Guide[] } {
+  const x = snapAxis(
+    [box.x, box.x + box.width / 2, box.x + box.width],
+    lines.x,
+    reach,
+    grid && { origin: grid.x, step: grid.step },
+  );
+  const y = snapAxis(
+    [box.y, box.y + box.height / 2, box.y + box.height],
+    lines.y,
+    reach,
+    grid && { origin: grid.y, step: grid.step },
+  );
+  const guides: Guide[] = [];
+  if (x.line !== null) guides.push({ axis: "x", value: x.line });
+  if (y.line !== null) guides.push({ axis: "y", value: y.line });
+  return { dx: x.shift, dy: y.shift, guides };
+}
+
+function snapAxis(
+  edges: number[],
+  lines: number[],
+  reach: number,
+  grid: { origin: number; step: number } | null,
+) {
+  let best = { shift: 0, line: null as number | null, distance: reach };
+  const consider = (edge: number, line: number) => {
+    const distance = Math.abs(line - edge);
+    if (distance <= best.distance) best = { shift: line - edge, line, distance };
+  };
+  edges.forEach((edge) => {
+    lines.forEach((line) => consider(edge, line));
+    if (grid && grid.step > 0) {
+      consider(edge, grid.origin + Math.round((edge - grid.origin) / grid.step) * grid.step);
+    }
+  });
+  return best;
+}
@@ -0,0 +1,254 @@
+import { StickerShape, StickerStyle } from "./types";
+
+// Sticker library: a bundled set of SVG stickers that works offline, and the
+// user's recent uploads, remembered in localStorage across sessions. Also the
+// sticker style used for new stickers.
+
+export type StickerCategory = "emoji" | "arrows" | "badges" | "stamps";
+
+export type StickerPreset = {
+  name: string;
+  category: StickerCategory;
+  src: string;
+};
+
+export const stickerCategories: StickerCategory[] = ["emoji", "arrows", "badges", "stamps"];
+
+export const stickerShapes: StickerShape[] = ["rectangle", "rounded", "circle"];
+
+export const defaultStickerStyle: StickerStyle = {
+  shape: "rectangle",
+  opacity: 1,
+  outlineColor: "#ffffff",
+  outlineWidth: 0,
+  shadow: false,
+};
+
+// pickStickerStyle copies just the style fields off a sticker.
+export function pickStickerStyle(sticker: StickerStyle): StickerStyle {
+  return {
+    shape: sticker.shape,
+    opacity: sticker.opacity,
+    outlineColor: sticker.outlineColor,
+    outlineWidth: sticker.outlineWidth,
+    shadow: sticker.shadow,
+  };
+}
+
+export const MAX_RECENT_STICKERS = 8;
+
+const RECENT_STICKERS_KEY = "pixelblur.recentStickers";
+
+// Uploads larger than this (as a data URL) are placed but not remembered, so
+// a few photos cannot fill the storage quota.
+const MAX_REMEMBERED_LENGTH = 1_500_000;
+
+// isSvgSource reports whether a sticker image is vector, so it can be
+// rasterised at its drawn size instead of scaled.
+export function isSvgSource(src: string) {
+  return src.startsWith("data:image/svg+xml");
+}
+
+// svg wraps markup drawn on a `width` x `height` grid in a data URL. The
+// intrinsic size is four times the grid so the image is already sharp where
+// an SVG renderer ignores the drawn size.
+function svg(body: string, width = 128, height = 128) {
+  const markup =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width * 4}" height="${height * 4}" ` +
+    `viewBox="0 0 ${width} ${height}">${body}</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+}
+
+const FONT = `font-family="Arial, Helvetica, sans-serif" font-weight="bold" text-anchor="middle"`;
+
+const face = (mouth: string, eyes = `<circle cx="46" cy="52" r="8"/><circle cx="82" cy="52" r="8"/>`) =>
+  svg(
+    `<circle cx="64" cy="64" r="58" fill="#ffcc33" stroke="#c78a00" stroke-width="4"/>` +
+      `<g fill="#4a3000" stroke="#4a3000" stroke-width="6" stroke-linecap="round">${eyes}${mouth}</g>`,
+  );
+
+const badge = (fill: string, mark: string) =>
+  svg(
+    `<circle cx="64" cy="64" r="58" fill="${fill}" stroke="#ffffff" stroke-width="6"/>` +
+      `<g fill="none" stroke="#ffffff" stroke-width="14" stroke-linecap="round" stroke-linejoin="round">${mark}</g>`,
+  );
+
+const stamp = (label: string, color: string, width: number) =>
+  svg(
+    `<rect x="6" y="6" width="${width - 12}" height="68" rx="10" fill="none" stroke="${color}" stroke-width="8"/>` +
+      `<text x="${width / 2}" y="54" font-size="40" letter-spacing="3" fill="${color}" ${FONT}>${label}</text>`,
+    width,
+    80,
+  );
+
+export const stickerPresets: StickerPreset[] = [
+  {
+    name: "Smile",
+    category: "emoji",
+    src: face(`<path d="M40 80 Q64 104 88 80" fill="none"/>`),
+  },
+  {
+    name: "Wink",
+    category: "emoji",
+    src: face(
+      `<path d="M40 80 Q64 104 88 80" fill="none"/>`,
+      `<circle cx="46" cy="52" r="8"/><path d="M74 54 L90 54" fill="none"/>`,
+    ),
+  },
+  {
+    name: "Neutral",
+    category: "emoji",
+    src: face(`<path d="M44 88 L84 88" fill="none"/>`),
+  },
+  {
+    name: "Shocked",
+    category: "emoji",
+    src: face(`<ellipse cx="64" cy="88" rx="12" ry="15" stroke="none"/>`),
+  },
+  {
+    name: "Heart",
+    category: "emoji",
+    src: svg(
+      `<path d="M64 112 C20 80 8 58 8 40 C8 22 22 10 38 10 C50 10 58 17 64 28 C70 17 78 10 90 10 C106 10 120 22 120 40 C120 58 108 80 64 112 Z" fill="#e53950" stroke="#9c1c30" stroke-width="4"/>`,
+    ),
+  },
+  {
+    name: "Star",
+    category: "emoji",
+    src: svg(
+      `<path d="M64 8 L80 44 L120 48 L90 74 L98 114 L64 94 L30 114 L38 74 L8 48 L48 44 Z" fill="#ffcc33" stroke="#c78a00" stroke-width="4" stroke-linejoin="round"/>`,
+    ),
+  },
+  {
+    name: "Arrow",
+    category: "arrows",
+    src: svg(
+      `<path d="M8 48 L80 48 L80 20 L124 64 L80 108 L80 80 L8 80 Z" fill="#ff3b30" stroke="#ffffff" stroke-width="5" stroke-linejoin="round"/>`,
+    ),
+  },
+  {
+    name: "Curved arrow",
+    category: "arrows",
+    src: svg(
+      `<path d="M16 112 C16 56 48 34 88 34" fill="none" stroke="#ff3b30" stroke-width="16" stroke-linecap="round"/>` +
+        `<path d="M80 8 L120 34 L80 60 Z" fill="#ff3b30" stroke-linejoin="round"/>`,
+    ),
+  },
+  {
+    name: "Chevron",
+    category: "arrows",
+    src: svg(
+      `<path d="M30 16 L78 64 L30 112" fill="none" stroke="#ffcc00" stroke-width="22" stroke-linecap="round" stroke-linejoin="round"/>` +
+        `<path d="M66 16 L114 64 L66 112" fill="none" stroke="#ffcc00" stroke-width="22" stroke-linecap="round" stroke-linejoin="round" opacity="0.6"/>`,
+    ),
+  },
+  {
+    name: "Ring",
+    category: "arrows",
+    src: svg(`<circle cx="64" cy="64" r="54" fill="none" stroke="#ff3b30" stroke-width="10"/>`),
+  },
+  {
+    name: "Check",
+    category: "badges",
+    src: badge("#2bb24c", `<path d="M34 66 L56 88 L94 44"/>`),
+  },
+  {
+    name: "Cross",
+    category: "badges",
+    src: badge("#e53935", `<path d="M42 42 L86 86 M86 42 L42 86"/>`),
+  },
+  {
+    name: "Info",
+    category: "badges",
+    src: badge("#1e88e5", `<path d="M64 58 L64 94"/><circle cx="64" cy="36" r="3" fill="#ffffff"/>`),
+  },
+  {
+    name: "Warning",
+    category: "badges",
+    src: svg(
+      `<path d="M64 10 L122 114 L6 114 Z" fill="#ffb300" stroke="#ffffff" stroke-width="6" stroke-linejoin="round"/>` +
+        `<path d="M64 44 L64 78" stroke="#2a2a2a" stroke-width="12" stroke-linecap="round"/>` +
+        `<circle cx="64" cy="98" r="7" fill="#2a2a2a"/>`,
+    ),
+  },
+  {
+    name: "New",
+    category: "badges",
+    src: svg(
+      `<rect x="4" y="4" width="152" height="72" rx="36" fill="#8e24aa" stroke="#ffffff" stroke-width="6"/>` +
+        `<text x="80" y="54" font-size="40" fill="#ffffff" ${FONT}>NEW</text>`,
+      160,
+      80,
+    ),
+  },
+  {
+    name: "Redacted bar",
+    category: "stamps",
+    src: svg(
+      `<rect width="320" height="80" fill="#000000"/>` +
+        `<text x="160" y="54" font-size="40" letter-spacing="4" fill="#ffffff" ${FONT}>REDACTED</text>`,
+      320,
+      80,
+    ),
+  },
+  {
+    name: "Redacted stamp",
+    category: "stamps",
+    src: stamp("REDACTED", "#d32f2f", 320),
+  },
+  {
+    name: "Confidential",
+    category: "stamps",
+    src: stamp("CONFIDENTIAL", "#d32f2f", 400),
+  },
+  {
+    name: "Approved",
+    category: "stamps",
+    src: stamp("APPROVED", "#2e7d32", 320),
+  },
+];
+
+// loadRecentStickers reads the remembered uploads, newest first. Missing or
+// unreadable storage yields an empty list.
+export function loadRecentStickers(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_STICKERS_KEY) ?? "[]");
+    return Array.isArray(stored)
+      ? stored.filter((src): src is string => typeof src === "string").slice(0, MAX_RECENT_STICKERS)
+      : [];
+  } catch (error) {
+    console.error("Failed to read recent stickers:", error);
+    return [];
+  }
+}
+
+// rememberSticker moves `src` to the front of the recent list and stores it.
+// Oversized uploads leave the list unchanged.
+export function rememberSticker(recent: string[], src: string): string[] {
+  if (src.length > MAX_REMEMBERED_LENGTH) return recent;
+  return saveRecentStickers(
+    [src, ...recent.filter((item) => item !== src)].slice(0, MAX_RECENT_STICKERS),
+  );
+}
+
+// forgetSticker removes an upload from the recent list.
+export function forgetSticker(recent: string[], src: string): string[] {
+  return saveRecentStickers(recent.filter((item) => item !== src));
+}
+
+// saveRecentStickers stores the list, dropping the oldest entries until it
+// fits the storage quota, and returns what was stored. Where not even one
+// entry fits, or storage refuses every write (private mode), the list lasts
+// for this session only.
+function saveRecentStickers(recent: string[]) {
+  for (let count = recent.length; count >= 0; count--) {
+    const kept = recent.slice(0, count);
+    try {
+      localStorage.setItem(RECENT_STICKERS_KEY, JSON.stringify(kept));
+      return kept.length > 0 ? kept : recent;
+    } catch (error) {
+      if (count === 0) console.error("Failed to save recent stickers:", error);
+    }
+  }
+  return recent;
+}
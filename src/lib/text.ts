@@ -0,0 +1,52 @@
+import { TextOverlay, TextStyle } from "./types";
+
+// Text overlay styling. The background box and outline extend past the text
+// block, so bounds and hit-testing use textInset to grow around it.
+
+export const defaultTextStyle: TextStyle = {
+  bold: false,
+  italic: false,
+  align: "left",
+  strokeColor: "#000000",
+  strokeWidth: 0,
+  shadow: false,
+  background: false,
+  backgroundColor: "#000000",
+  backgroundOpacity: 0.6,
+};
+
+export const textAligns: TextStyle["align"][] = ["left", "center", "right"];
+
+// pickTextStyle copies just the style fields off a text overlay.
+export function pickTextStyle(text: TextStyle): TextStyle {
+  return {
+    bold: text.bold,
+    italic: text.italic,
+    align: text.align,
+    strokeColor: text.strokeColor,
+    strokeWidth: text.strokeWidth,
+    shadow: text.shadow,
+    background: text.background,
+    backgroundColor: text.backgroundColor,
+    backgroundOpacity: text.backgroundOpacity,
+  };
+}
+
+// textPadding is the gap between the text block and its background box.
+export function textPadding(text: Pick<TextOverlay, "size" | "background">) {
+  return text.background ? Math.round(text.size * 0.3) : 0;
+}
+
+// textInset is how far the drawn text reaches outside its block on each side.
+export function textInset(
+  text: Pick<TextOverlay, "size" | "background" | "strokeWidth">,
+) {
+  return Math.max(textPadding(text), text.strokeWidth / 2);
+}
+
+// alignOffset positions a line of `lineWidth` inside a block of `blockWidth`.
+export function alignOffset(align: TextStyle["align"], blockWidth: number, lineWidth: number) {
+  if (align === "center") return (blockWidth - lineWidth) / 2;
+  if (align === "right") return blockWidth - lineWidth;
+  return 0;
+}
@@ -1,6 +1,18 @@
-export type Mode = "blur" | "magnify" | "sticker" | "text";
+export type Mode =
+  | "blur"
+  | "pixelate"
+  | "fill"
+  | "noise"
+  | "magnify"
+  | "brush"
+  | "sticker"
+  | "text"
+  | AnnotationMode;
 
-export type LensShape = "circle" | "rounded";
+// Box shapes fit an x/y/width/height box; "path" lenses follow a lasso or
+// polygon outline instead.
+export type BoxShape = "circle" | "rounded";
+export type LensShape = BoxShape | "path";
 
 export type Lens = {
   id: string;
@@ -15,20 +27,73 @@ export type Lens = {
   mode: Mode;
   shape: LensShape;
   blur: number;
+  blockSize: number; // mosaic cell size for pixelate lenses
+  fillColor: string; // solid colour for fill lenses
   magnification: number;
+  feather: number; // soft-edge width of redaction lenses, 0 for a hard edge
+  opacity: number; // 0-1 strength of the redaction effect
+  // Magnifier styling; ignored by the other modes.
+  borderColor: string;
+  borderWidth: number; // 0 for no border
+  shadow: boolean;
+  connector: MagnifierConnector;
+  sheen: boolean; // glass highlight over the zoomed view
+  pixelated: boolean; // nearest-neighbour zoom instead of smoothing
+  rotation: number; // degrees about the centre; only rounded lenses rotate
+  // Outline of a "path" lens in image coordinates; x/y/width/height are its
+  // display-space bounds.
+  imagePoints?: { x: number; y: number }[];
+  z: number; // stacking order shared by lenses, stickers and text
   createdAt: number;
 };
 
+export type LensEffect = Pick<Lens, "feather" | "opacity">;
+
+// How a magnifier points at its source: the tapered beam, a plain line, or a
+// frame around the magnified area.
+export type MagnifierConnector = "beam" | "line" | "frame";
+
+export type MagnifierStyle = Pick<
+  Lens,
+  "borderColor" | "borderWidth" | "shadow" | "connector" | "sheen" | "pixelated"
+>;
+
 export type LensPreview = {
   x: number;
   y: number;
   width: number;
   height: number;
-  shape: LensShape;
+  shape: LensShape | StickerShape; // stickers preview in their own shape
+  points?: { x: number; y: number }[]; // display-space outline for "path" previews
 };
 
 export type StageHandle = {
   getCanvas: () => HTMLCanvasElement | null;
+  // Renders the scene offscreen at the image's natural resolution, optionally
+  // multiplied by `scale`.
+  exportCanvas: (scale?: number) => HTMLCanvasElement | null;
+  // Output size of exportCanvas at 1x.
+  getExportSize: () => { width: number; height: number };
+  // Current display -> image space mapping (identity without an image).
+  getTransform: () => SceneTransform;
+  // Display-space bounds of an overlay, rotation included; null if missing.
+  getBounds: (selection: Selection) => { x: number; y: number; width: number; height: number } | null;
+};
+
+// Smart guides while moving overlays, and the optional pixel grid. gridSize
+// is in image pixels.
+export type SnapSettings = {
+  enabled: boolean;
+  grid: boolean;
+  gridSize: number;
+};
+
+// SceneTransform maps display (canvas) coordinates into output coordinates:
+// output = (display - offset) / scale.
+export type SceneTransform = {
+  offsetX: number;
+  offsetY: number;
+  scale: number;
 };
 
 export type Sticker = {
@@ -38,10 +103,65 @@ export type Sticker = {
   width: number;
   height: number;
   image: HTMLImageElement;
-  shape: LensShape;
+  src: string; // data URL of the image, kept so projects can be serialized
+  shape: StickerShape;
+  rotation: number; // degrees about the centre
+  opacity: number; // 0-1, applied to the image and outline together
+  outlineColor: string;
+  outlineWidth: number; // 0 for no outline
+  shadow: boolean;
+  flipX: boolean;
+  flipY: boolean;
+  // Part of the source image shown, as fractions of its size; null shows it
+  // all.
+  crop: StickerCrop | null;
+  z: number;
+};
+
+// Stickers can also be plain, unrounded rectangles.
+export type StickerShape = BoxShape | "rectangle";
+
+export type StickerCrop = { x: number; y: number; width: number; height: number };
+
+export type StickerStyle = Pick<
+  Sticker,
+  "shape" | "opacity" | "outlineColor" | "outlineWidth" | "shadow"
+>;
+
+// Blur-brush stroke. Points and sizes are in image pixels; the painted
+// strokes form the mask through which a blurred copy of the image shows.
+export type BrushStroke = {
+  id: string;
+  points: { x: number; y: number }[];
+  size: number; // brush diameter
+  hardness: number; // 0-1; lower values feather the edge
+  blur: number; // blur radius of the painted area
+  erase: boolean; // removes earlier painting instead of adding to it
+};
+
+// Brush tool settings; size is in display pixels like lens size.
+export type BrushSettings = {
+  size: number;
+  hardness: number;
+  erase: boolean;
 };
 
-export type TextOverlay = {
+export type TextAlign = "left" | "center" | "right";
+
+// Styling shared by the text tool settings and every text overlay.
+export type TextStyle = {
+  bold: boolean;
+  italic: boolean;
+  align: TextAlign; // within the text block, whose x/y stays top-left
+  strokeColor: string;
+  strokeWidth: number; // outline width, 0 for none
+  shadow: boolean;
+  background: boolean; // padded rounded box behind the text
+  backgroundColor: string;
+  backgroundOpacity: number; // 0-1
+};
+
+export type TextOverlay = TextStyle & {
   id: string;
   x: number;
   y: number;
@@ -49,4 +169,70 @@ export type TextOverlay = {
   color: string;
   size: number;
   font: string;
+  rotation: number; // degrees about the centre of the text bounds
+  z: number;
+};
+
+// Annotations are vector marks for bug reports. They share a stroke style;
+// `mode` tells the variants apart.
+export type AnnotationMode = "arrow" | "rectangle" | "highlight" | "step";
+
+export type AnnotationStyle = {
+  color: string;
+  strokeWidth: number;
+  opacity: number; // 0-1
+};
+
+export type ArrowAnnotation = AnnotationStyle & {
+  id: string;
+  mode: "arrow";
+  x1: number; // tail
+  y1: number;
+  x2: number; // head
+  y2: number;
+  z: number;
+};
+
+export type RectAnnotation = AnnotationStyle & {
+  id: string;
+  mode: "rectangle";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  z: number;
+};
+
+// Freehand highlighter stroke.
+export type HighlightAnnotation = AnnotationStyle & {
+  id: string;
+  mode: "highlight";
+  points: { x: number; y: number }[];
+  z: number;
+};
+
+// Numbered step marker; x/y is the centre.
+export type StepAnnotation = AnnotationStyle & {
+  id: string;
+  mode: "step";
+  x: number;
+  y: number;
+  radius: number;
+  number: number;
+  z: number;
+};
+
+export type Annotation =
+  | ArrowAnnotation
+  | RectAnnotation
+  | HighlightAnnotation
+  | StepAnnotation;
+
+export type OverlayKind = "lens" | "sticker" | "text" | "annotation";
+
+// Selection identifies the overlay the edit actions (delete, duplicate,
+// restack) apply to.
+export type Selection = {
+  kind: OverlayKind;
+  id: string;
 };